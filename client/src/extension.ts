@@ -35,10 +35,12 @@
 
 import * as path from 'path';
 import * as fs from 'fs';
-import { languages, workspace, ExtensionContext, TextDocument } from 'vscode';
+import { commands, languages, workspace, ExtensionContext, TextDocument } from 'vscode';
 import {
   LanguageClient,
   LanguageClientOptions,
+  Location,
+  Position,
   ServerOptions,
   TransportKind,
 } from 'vscode-languageclient/node';
@@ -111,6 +113,20 @@ export function activate(context: ExtensionContext) {
     clientOptions,
   );
 
+  // Code lenses of the server show their locations with this command
+  context.subscriptions.push(
+    commands.registerCommand(
+      'modelica.showReferences',
+      (uri: string, position: Position, locations: Location[]) =>
+        commands.executeCommand(
+          'editor.action.showReferences',
+          client.protocol2CodeConverter.asUri(uri),
+          client.protocol2CodeConverter.asPosition(position),
+          locations.map(client.protocol2CodeConverter.asLocation),
+        ),
+    ),
+  );
+
   // Start the client. This will also launch the server
   client.start();
 }
@@ -0,0 +1,174 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { ModelicaProject } from '../project';
+import { createHierarchyItem, resolveHierarchyItem } from './hierarchyItem';
+import { ResolvedReference } from './reference';
+import { getDeclarationKey, ReferenceIndex } from './referenceIndex';
+import { getClassSymbols, resolveCallee } from './resolveReference';
+
+/**
+ * Checks if a resolved reference is a function class.
+ */
+export function isFunction(reference: ResolvedReference): boolean {
+  return (
+    reference.kind === 'class' &&
+    (TreeSitterUtil.getClassPrefixes(reference.node)?.split(/\s+/).includes('function') ?? false)
+  );
+}
+
+/**
+ * Creates a call hierarchy item for a class.
+ *
+ * @param classRef the resolved function, or the model calling a function
+ * @returns the call hierarchy item
+ */
+export function createCallHierarchyItem(classRef: ResolvedReference): LSP.CallHierarchyItem {
+  return createHierarchyItem(classRef, LSP.SymbolKind.Function);
+}
+
+/**
+ * Finds the classes calling the function of a call hierarchy item, grouped by
+ * the calling class.
+ *
+ * @param project the project
+ * @param item the call hierarchy item of the function
+ * @param index the reference index
+ * @returns the callers and the ranges of their calls
+ */
+export function getIncomingCalls(
+  project: ModelicaProject,
+  item: LSP.CallHierarchyItem,
+  index: ReferenceIndex,
+): LSP.CallHierarchyIncomingCall[] {
+  const callee = resolveHierarchyItem(project, item);
+  if (!callee) {
+    return [];
+  }
+
+  const calls = new Map<string, LSP.CallHierarchyIncomingCall>();
+  for (const { document, node } of index.getReferences(callee)) {
+    if (!isCalledFunctionName(node)) {
+      continue;
+    }
+
+    const callerNode = TreeSitterUtil.findParent(node, (n) => n.type === 'class_definition');
+    if (!callerNode) {
+      continue;
+    }
+
+    const caller = new ResolvedReference(
+      document,
+      callerNode,
+      getClassSymbols(document, callerNode),
+      'class',
+    );
+    const key = getDeclarationKey(caller);
+    if (!calls.has(key)) {
+      calls.set(key, { from: createCallHierarchyItem(caller), fromRanges: [] });
+    }
+    calls.get(key)!.fromRanges.push(TreeSitterUtil.range(node));
+  }
+
+  return [...calls.values()];
+}
+
+/**
+ * Finds the functions called in the class of a call hierarchy item, i.e. in
+ * its algorithms, equations and bindings. Calls of builtin functions are
+ * omitted.
+ *
+ * @param project the project
+ * @param item the call hierarchy item of the calling class
+ * @returns the called functions and the ranges of the calls
+ */
+export function getOutgoingCalls(
+  project: ModelicaProject,
+  item: LSP.CallHierarchyItem,
+): LSP.CallHierarchyOutgoingCall[] {
+  const caller = resolveHierarchyItem(project, item);
+  if (!caller) {
+    return [];
+  }
+
+  const calls = new Map<string, LSP.CallHierarchyOutgoingCall>();
+  TreeSitterUtil.forEach(caller.node, (node) => {
+    if (node.type === 'class_definition' && !node.equals(caller.node)) {
+      // Nested functions have their own calls
+      return false;
+    }
+
+    const functionReference = node.childForFieldName('functionReference');
+    if (functionReference?.type !== 'component_reference') {
+      return true;
+    }
+
+    const callee = resolveCallee(caller.document, functionReference.text, functionReference);
+    if (!callee || !isFunction(callee)) {
+      return true;
+    }
+
+    const key = getDeclarationKey(callee);
+    if (!calls.has(key)) {
+      calls.set(key, { to: createCallHierarchyItem(callee), fromRanges: [] });
+    }
+    const name = TreeSitterUtil.getComponentReference(functionReference).componentNodes.at(-1)!;
+    calls.get(key)!.fromRanges.push(TreeSitterUtil.range(name));
+    return true;
+  });
+
+  return [...calls.values()];
+}
+
+/**
+ * Checks if an identifier is the (last part of the) name of a called
+ * function, e.g. `norm` in `Functions.norm(x)`.
+ */
+function isCalledFunctionName(node: Parser.SyntaxNode): boolean {
+  const functionReference = node.parent;
+  if (
+    functionReference?.type !== 'component_reference' ||
+    !functionReference.parent?.childForFieldName('functionReference')?.equals(functionReference)
+  ) {
+    return false;
+  }
+
+  const componentNodes = TreeSitterUtil.getComponentReference(functionReference).componentNodes;
+  return componentNodes.at(-1)?.equals(node) ?? false;
+}
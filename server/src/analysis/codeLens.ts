@@ -0,0 +1,324 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import url from 'node:url';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { ModelicaDocument, ModelicaProject } from '../project';
+import { InheritanceIndex } from './inheritanceIndex';
+import { ResolvedReference, UnresolvedAbsoluteReference } from './reference';
+import { getDeclarationIdentifier, ReferenceIndex, toLocation } from './referenceIndex';
+import resolveReference, { getClassSymbols } from './resolveReference';
+
+/**
+ * Client command showing a list of locations, called with the document URI,
+ * the position and the locations.
+ */
+export const SHOW_REFERENCES_COMMAND = 'modelica.showReferences';
+
+/**
+ * Server command writing a simulation script for a model, called with the URI
+ * of the model's document and the absolute path of the model.
+ */
+export const GENERATE_SIMULATION_SCRIPT_COMMAND = 'modelica.generateSimulationScript';
+
+type CodeLensKind = 'usages' | 'subclasses' | 'simulation';
+
+interface CodeLensData {
+  kind: CodeLensKind;
+  uri: LSP.DocumentUri;
+  symbols: string[];
+}
+
+/**
+ * Creates the unresolved code lenses of a document: usages and subclasses of
+ * every class, and a simulation script for models with an `experiment`
+ * annotation. The commands are added by {@link resolveCodeLens}.
+ *
+ * @param document the document
+ * @returns the unresolved code lenses
+ */
+export function getCodeLenses(document: ModelicaDocument): LSP.CodeLens[] {
+  const lenses: LSP.CodeLens[] = [];
+
+  TreeSitterUtil.forEach(document.tree.rootNode, (node) => {
+    if (node.type !== 'class_definition') {
+      return true;
+    }
+
+    const identifier = node.childForFieldName('classSpecifier')?.childForFieldName('identifier');
+    if (!identifier) {
+      return true;
+    }
+
+    const range = TreeSitterUtil.range(identifier);
+    const symbols = getClassSymbols(document, node);
+    const createLens = (kind: CodeLensKind): LSP.CodeLens => ({
+      range,
+      data: { kind, uri: document.uri, symbols } satisfies CodeLensData,
+    });
+
+    lenses.push(createLens('usages'), createLens('subclasses'));
+    if (getExperiment(node)) {
+      lenses.push(createLens('simulation'));
+    }
+    return true;
+  });
+
+  return lenses;
+}
+
+/**
+ * Adds the command to a code lens created by {@link getCodeLenses}.
+ *
+ * @param project the project
+ * @param lens the unresolved code lens
+ * @param referenceIndex the index used to count usages
+ * @param inheritanceIndex the index used to count subclasses
+ * @returns the resolved code lens
+ */
+export function resolveCodeLens(
+  project: ModelicaProject,
+  lens: LSP.CodeLens,
+  referenceIndex: ReferenceIndex,
+  inheritanceIndex: InheritanceIndex,
+): LSP.CodeLens {
+  const { kind, uri, symbols } = lens.data as CodeLensData;
+  const classRef = resolveReference(project, new UnresolvedAbsoluteReference(symbols, 'class'));
+  if (!classRef) {
+    return { ...lens, command: { title: 'Class not found', command: '' } };
+  }
+
+  switch (kind) {
+    case 'usages': {
+      const locations = referenceIndex
+        .getReferences(classRef)
+        // `end Name;` is part of the class itself, and `within` and import
+        // clauses only name the class without using it
+        .filter(
+          ({ node }) =>
+            !node.parent?.childForFieldName('endIdentifier')?.equals(node) &&
+            !TreeSitterUtil.findParent(
+              node,
+              (n) => n.type === 'within_clause' || n.type === 'import_clause',
+            ),
+        )
+        .map(toLocation);
+      const title = locations.length === 1 ? '1 usage' : `${locations.length} usages`;
+      return {
+        ...lens,
+        command: LSP.Command.create(
+          title,
+          SHOW_REFERENCES_COMMAND,
+          uri,
+          lens.range.start,
+          locations,
+        ),
+      };
+    }
+    case 'subclasses': {
+      const locations = inheritanceIndex.getSubclasses(classRef).flatMap((subclass) => {
+        const identifier = getDeclarationIdentifier(subclass);
+        return identifier ? [toLocation({ document: subclass.document, node: identifier })] : [];
+      });
+      return {
+        ...lens,
+        command: LSP.Command.create(
+          `extended by ${locations.length}`,
+          SHOW_REFERENCES_COMMAND,
+          uri,
+          lens.range.start,
+          locations,
+        ),
+      };
+    }
+    case 'simulation':
+      return {
+        ...lens,
+        command: LSP.Command.create(
+          'Generate simulation script',
+          GENERATE_SIMULATION_SCRIPT_COMMAND,
+          uri,
+          symbols,
+        ),
+      };
+  }
+}
+
+/**
+ * Writes an OpenModelica script loading the library of a model and
+ * simulating it with the settings of its `experiment` annotation.
+ *
+ * Scripts of models in workspaces are stored next to the model's document.
+ * Read-only libraries are left untouched, their scripts are stored in the
+ * workspace folder instead or, without one, are untitled documents.
+ *
+ * @param classRef the resolved model
+ * @param workspacePath the workspace folder for scripts of read-only models
+ * @returns the URI and the content of the script, which doesn't replace
+ *     existing files, or `null` if the model has no `experiment` annotation
+ */
+export function getSimulationScript(
+  classRef: ResolvedReference,
+  workspacePath?: string,
+): { uri: LSP.DocumentUri; text: string } | null {
+  const experiment = getExperiment(classRef.node);
+  if (!experiment) {
+    return null;
+  }
+
+  const simulateArguments = [classRef.symbols.join('.')];
+  const startTime = experiment.get('StartTime');
+  const stopTime = experiment.get('StopTime');
+  const tolerance = experiment.get('Tolerance');
+  const interval = experiment.get('Interval');
+  if (startTime !== undefined) {
+    simulateArguments.push(`startTime = ${startTime}`);
+  }
+  if (stopTime !== undefined) {
+    simulateArguments.push(`stopTime = ${stopTime}`);
+  }
+  if (tolerance !== undefined) {
+    simulateArguments.push(`tolerance = ${tolerance}`);
+  }
+  if (interval !== undefined) {
+    // simulate() takes the number of intervals instead of their length
+    const numberOfIntervals = Math.round(
+      (Number(stopTime ?? 1) - Number(startTime ?? 0)) / Number(interval),
+    );
+    if (Number.isFinite(numberOfIntervals) && numberOfIntervals > 0) {
+      simulateArguments.push(`numberOfIntervals = ${numberOfIntervals}`);
+    }
+  }
+
+  const text = [
+    `// Simulation script for ${classRef.symbols.join('.')}`,
+    `loadFile("${getLibraryFile(classRef.document).replace(/\\/g, '/')}");`,
+    'getErrorString();',
+    `simulate(${simulateArguments.join(', ')});`,
+    'getErrorString();',
+    '',
+  ].join('\n');
+
+  const name = classRef.symbols.at(-1)!;
+  const directory =
+    classRef.document.library?.isWorkspace === false
+      ? workspacePath
+      : path.dirname(classRef.document.path);
+  if (!directory) {
+    return { uri: `untitled:${name}.mos`, text };
+  }
+
+  const scriptPath = getUnusedPath(directory, name, '.mos');
+  return { uri: url.pathToFileURL(scriptPath).href, text };
+}
+
+/**
+ * Returns a path in a directory that no file exists at yet, e.g.
+ * `Model.mos`, `Model_1.mos`, `Model_2.mos`, ...
+ */
+function getUnusedPath(directory: string, name: string, extension: string): string {
+  let filePath = path.join(directory, name + extension);
+  for (let i = 1; fs.existsSync(filePath); i++) {
+    filePath = path.join(directory, `${name}_${i}${extension}`);
+  }
+
+  return filePath;
+}
+
+/**
+ * Returns the file loading the whole library of a document, i.e. the
+ * `package.mo` of its root package or the document itself.
+ */
+function getLibraryFile(document: ModelicaDocument): string {
+  const library = document.library;
+  if (library && document.within.length > 0) {
+    for (const file of ['package.mo', `${library.name}.mo`]) {
+      const libraryFile = path.join(library.path, file);
+      if (fs.existsSync(libraryFile)) {
+        return libraryFile;
+      }
+    }
+  }
+
+  return document.path;
+}
+
+/**
+ * Returns the arguments of the `experiment` annotation of a class, e.g.
+ * `StopTime` → `1` for `annotation(experiment(StopTime = 1))`.
+ *
+ * @param classNode a `class_definition`
+ * @returns the arguments, or `undefined` if the class has no experiment
+ */
+function getExperiment(classNode: Parser.SyntaxNode): Map<string, string> | undefined {
+  const annotation = classNode
+    .childForFieldName('classSpecifier')
+    ?.childForFieldName('annotationClause');
+  const experiment = getModificationArguments(
+    annotation?.childForFieldName('classModification'),
+  ).find((argument) => argument.childForFieldName('name')?.text === 'experiment');
+  if (!experiment) {
+    return undefined;
+  }
+
+  const settings = new Map<string, string>();
+  const modification = experiment.childForFieldName('modification');
+  for (const argument of getModificationArguments(
+    modification?.childForFieldName('classModification'),
+  )) {
+    const name = argument.childForFieldName('name')?.text;
+    const value = argument.childForFieldName('modification')?.childForFieldName('expression');
+    if (name && value) {
+      settings.set(name, value.text);
+    }
+  }
+
+  return settings;
+}
+
+function getModificationArguments(
+  classModification: Parser.SyntaxNode | null | undefined,
+): Parser.SyntaxNode[] {
+  return (
+    classModification
+      ?.childForFieldName('arguments')
+      ?.namedChildren.filter((argument) => argument.type === 'element_modification') ?? []
+  );
+}
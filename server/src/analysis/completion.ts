@@ -0,0 +1,373 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+import * as path from 'node:path';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { logger } from '../util/logger';
+import { ModelicaDocument, ModelicaProject } from '../project';
+import {
+  ResolvedReference,
+  UnresolvedAbsoluteReference,
+  UnresolvedReference,
+  UnresolvedRelativeReference,
+} from './reference';
+import resolveReference, { resolveSuperclass, variableRefToClassRef } from './resolveReference';
+
+/**
+ * Collects the completion candidates at the given position.
+ *
+ * Without a qualifier all symbols in scope are offered: local and inherited
+ * components and classes, imported names, classes of the enclosing packages
+ * and library roots. After a dot (`pid.` or `Modelica.Blocks.`) the members of
+ * the class referenced by the qualifier are offered instead.
+ *
+ * @param document the opened document
+ * @param position the cursor position
+ * @returns the completion items
+ */
+export function getCompletions(
+  document: ModelicaDocument,
+  position: LSP.Position,
+): LSP.CompletionItem[] {
+  const line = document.getText({ start: { line: position.line, character: 0 }, end: position });
+  const [, global, qualifier] = line.match(/(\.)?((?:[A-Za-z_]\w*\.)*)\w*$/)!;
+  const qualifierSymbols = qualifier.split('.').filter((symbol) => symbol.length > 0);
+
+  const offset = document.offsetAt(position);
+  const scopeNode = document.tree.rootNode.descendantForIndex(Math.max(offset - 1, 0));
+
+  const completions = new CompletionList();
+  if (qualifierSymbols.length > 0) {
+    const unresolved = global
+      ? new UnresolvedAbsoluteReference(qualifierSymbols)
+      : new UnresolvedRelativeReference(document, scopeNode, qualifierSymbols);
+    const qualifierClass = resolveClass(document.project, unresolved);
+    if (qualifierClass) {
+      completions.addClassMembers(qualifierClass.document, qualifierClass.node);
+    } else {
+      logger.debug(`Couldn't resolve qualifier ${qualifierSymbols.join('.')}`);
+    }
+
+    return completions.items;
+  }
+
+  if (!global) {
+    completions.addScope(document, scopeNode);
+  }
+
+  for (const library of document.project.libraries) {
+    completions.add({ label: library.name, kind: LSP.CompletionItemKind.Module });
+  }
+
+  return completions.items;
+}
+
+/**
+ * Resolves a reference to a class. References to components are resolved to
+ * the class of the component.
+ */
+function resolveClass(
+  project: ModelicaProject,
+  unresolved: UnresolvedReference,
+): ResolvedReference | null {
+  const resolved = resolveReference(project, unresolved);
+  if (resolved?.kind === 'variable') {
+    return variableRefToClassRef(resolved);
+  }
+
+  return resolved;
+}
+
+/**
+ * Completion items without duplicate labels. The first added item of a label
+ * wins, so inner scopes have to be added before outer scopes.
+ */
+class CompletionList {
+  readonly #items = new Map<string, LSP.CompletionItem>();
+  readonly #visitedClasses = new Set<string>();
+
+  public get items(): LSP.CompletionItem[] {
+    return [...this.#items.values()];
+  }
+
+  public add(item: LSP.CompletionItem): void {
+    if (!this.#items.has(item.label)) {
+      this.#items.set(item.label, item);
+    }
+  }
+
+  /**
+   * Adds all symbols visible from `node`, from the innermost scope outwards.
+   */
+  public addScope(document: ModelicaDocument, node: Parser.SyntaxNode): void {
+    for (let current: Parser.SyntaxNode | null = node; current; current = current.parent) {
+      switch (current.type) {
+        case 'class_definition':
+          this.addClassMembers(document, current);
+          for (const importClause of TreeSitterUtil.getClassElements(current).filter(
+            (element) => element.type === 'import_clause',
+          )) {
+            this.addImport(document, importClause);
+          }
+          break;
+        case 'for_equation':
+        case 'for_statement':
+          for (const index of TreeSitterUtil.getDeclaredIdentifiers(current)) {
+            this.add({ label: index, kind: LSP.CompletionItemKind.Variable });
+          }
+          break;
+      }
+    }
+
+    // Classes of the enclosing packages
+    const within = document.within;
+    for (let i = within.length; i > 0; i--) {
+      const enclosingPackage = resolveClass(
+        document.project,
+        new UnresolvedAbsoluteReference(within.slice(0, i), 'class'),
+      );
+      if (enclosingPackage) {
+        this.addClassMembers(enclosingPackage.document, enclosingPackage.node);
+      }
+    }
+  }
+
+  /**
+   * Adds the elements of a class, including elements inherited through
+   * `extends` clauses and classes stored in the package directory.
+   */
+  public addClassMembers(document: ModelicaDocument, classNode: Parser.SyntaxNode): void {
+    if (classNode.type !== 'class_definition') {
+      return;
+    }
+
+    const key = `${document.uri}:${classNode.startIndex}`;
+    if (this.#visitedClasses.has(key)) {
+      return;
+    }
+    this.#visitedClasses.add(key);
+
+    const classSpecifier = classNode.childForFieldName('classSpecifier');
+    switch (classSpecifier?.type) {
+      case 'short_class_specifier':
+        this.addSuperclassMembers(document, classSpecifier);
+        return;
+      case 'enumeration_class_specifier':
+        for (const literal of classSpecifier.descendantsOfType('enumeration_literal')) {
+          this.add({
+            label: TreeSitterUtil.getDeclaredIdentifiers(literal)[0],
+            kind: LSP.CompletionItemKind.EnumMember,
+            documentation: TreeSitterUtil.getDescriptionString(literal),
+          });
+        }
+        return;
+    }
+
+    for (const element of TreeSitterUtil.getClassElements(classNode)) {
+      if (element.type === 'extends_clause') {
+        this.addSuperclassMembers(document, element);
+        continue;
+      }
+
+      if (element.type !== 'named_element') {
+        continue;
+      }
+
+      const classDefinition = element.childForFieldName('classDefinition');
+      if (classDefinition) {
+        this.add(createClassItem(classDefinition));
+        continue;
+      }
+
+      const componentClause = TreeSitterUtil.getComponentClause(element);
+      for (const name of TreeSitterUtil.getDeclaredIdentifiers(element)) {
+        this.add(createComponentItem(componentClause!, name));
+      }
+    }
+
+    this.addPackageDirectory(document, classNode);
+  }
+
+  /**
+   * Adds the members of the superclass referenced by an `extends_clause` or a
+   * short class specifier.
+   */
+  private addSuperclassMembers(document: ModelicaDocument, node: Parser.SyntaxNode): void {
+    const superclass = resolveSuperclass(document, node);
+    if (superclass) {
+      this.addClassMembers(superclass.document, superclass.node);
+    }
+  }
+
+  /**
+   * Adds the classes stored in separate files next to a `package.mo`.
+   */
+  private addPackageDirectory(document: ModelicaDocument, classNode: Parser.SyntaxNode): void {
+    if (
+      path.basename(document.path) !== 'package.mo' ||
+      classNode.parent?.type !== 'stored_definition' ||
+      !document.library
+    ) {
+      return;
+    }
+
+    const packageDirectory = path.dirname(document.path);
+    for (const [documentPath, childDocument] of document.library.documents) {
+      let name: string;
+      if (path.basename(documentPath) === 'package.mo') {
+        if (path.dirname(path.dirname(documentPath)) !== packageDirectory) {
+          continue;
+        }
+        name = path.basename(path.dirname(documentPath));
+      } else {
+        if (path.dirname(documentPath) !== packageDirectory) {
+          continue;
+        }
+        name = path.basename(documentPath, '.mo');
+      }
+
+      const childClass = childDocument.tree.rootNode
+        .descendantsOfType('class_definition')
+        .find((node) => TreeSitterUtil.hasIdentifier(node, name));
+      if (childClass) {
+        this.add(createClassItem(childClass));
+      }
+    }
+  }
+
+  /**
+   * Adds the names introduced by an import clause.
+   */
+  private addImport(document: ModelicaDocument, importClause: Parser.SyntaxNode): void {
+    const importPath = TreeSitterUtil.getTypeSpecifier(
+      importClause.childForFieldName('name')!,
+    ).symbols;
+
+    // wildcard import: import a.b.*;
+    if (importClause.childForFieldName('wildcard') != null) {
+      const importedPackage = resolveClass(
+        document.project,
+        new UnresolvedAbsoluteReference(importPath, 'class'),
+      );
+      if (importedPackage) {
+        this.addClassMembers(importedPackage.document, importedPackage.node);
+      }
+      return;
+    }
+
+    // multi-import: import a.b.{c, d, e};
+    const childImports = importClause
+      .childForFieldName('imports')
+      ?.namedChildren?.filter((node) => node.type === 'IDENT')
+      ?.map((node) => node.text);
+    if (childImports) {
+      for (const name of childImports) {
+        this.addImportedName(document, name, [...importPath, name]);
+      }
+      return;
+    }
+
+    // import alias: import z = a.b.c;
+    // normal import: import a.b.c;
+    const alias = importClause.childForFieldName('alias')?.text;
+    this.addImportedName(document, alias ?? importPath.at(-1)!, importPath);
+  }
+
+  private addImportedName(document: ModelicaDocument, name: string, symbols: string[]): void {
+    const imported = resolveReference(document.project, new UnresolvedAbsoluteReference(symbols));
+    if (!imported) {
+      this.add({ label: name, kind: LSP.CompletionItemKind.Module, detail: symbols.join('.') });
+      return;
+    }
+
+    const item =
+      imported.kind === 'class'
+        ? createClassItem(imported.node)
+        : createComponentItem(imported.node, symbols.at(-1)!);
+    this.add({ ...item, label: name, detail: `${item.detail} ${symbols.join('.')}` });
+  }
+}
+
+function createClassItem(classNode: Parser.SyntaxNode): LSP.CompletionItem {
+  const classPrefixes = TreeSitterUtil.getClassPrefixes(classNode) ?? 'class';
+  const isEnumeration =
+    classNode.childForFieldName('classSpecifier')?.type === 'enumeration_class_specifier';
+
+  return {
+    label: TreeSitterUtil.getDeclaredIdentifiers(classNode)[0],
+    kind: isEnumeration ? LSP.CompletionItemKind.Enum : getClassItemKind(classPrefixes),
+    detail: classPrefixes,
+    documentation: TreeSitterUtil.getDescriptionString(classNode),
+  };
+}
+
+function getClassItemKind(classPrefixes: string): LSP.CompletionItemKind {
+  const restriction = classPrefixes.split(/\s+/);
+  switch (restriction.at(-1)) {
+    case 'package':
+      return LSP.CompletionItemKind.Module;
+    case 'function':
+      return LSP.CompletionItemKind.Function;
+    case 'record':
+      return restriction.includes('operator')
+        ? LSP.CompletionItemKind.Operator
+        : LSP.CompletionItemKind.Struct;
+    case 'connector':
+      return LSP.CompletionItemKind.Interface;
+    case 'type':
+      return LSP.CompletionItemKind.TypeParameter;
+    default:
+      return LSP.CompletionItemKind.Class;
+  }
+}
+
+function createComponentItem(node: Parser.SyntaxNode, name: string): LSP.CompletionItem {
+  const prefixes = TreeSitterUtil.getComponentPrefixes(node);
+  const clause = TreeSitterUtil.getComponentClause(node);
+  const componentDeclaration = TreeSitterUtil.getComponentDeclaration(node, name);
+  const isConstant = prefixes.includes('constant') || prefixes.includes('parameter');
+
+  return {
+    label: name,
+    kind: isConstant ? LSP.CompletionItemKind.Constant : LSP.CompletionItemKind.Variable,
+    detail: [...prefixes, clause?.childForFieldName('typeSpecifier')?.text].join(' '),
+    documentation: componentDeclaration
+      ? TreeSitterUtil.getDescriptionString(componentDeclaration)
+      : undefined,
+  };
+}
@@ -0,0 +1,123 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+
+/**
+ * Readable names of named nodes that may be reported as missing.
+ */
+const NODE_NAMES: Record<string, string> = {
+  IDENT: 'identifier',
+  STRING: 'string',
+  UNSIGNED_INTEGER: 'integer',
+  UNSIGNED_REAL: 'number',
+};
+
+/**
+ * Reports the syntax errors of a tree, i.e. its `ERROR` and `MISSING` nodes.
+ *
+ * @param tree the syntax tree of a document
+ * @returns one diagnostic per syntax error
+ */
+export function getSyntaxDiagnostics(tree: Parser.Tree): LSP.Diagnostic[] {
+  const diagnostics: LSP.Diagnostic[] = [];
+  if (!tree.rootNode.hasError()) {
+    return diagnostics;
+  }
+
+  TreeSitterUtil.forEach(tree.rootNode, (node) => {
+    if (node.isMissing()) {
+      diagnostics.push(createDiagnostic(getMissingRange(node), `expected ${getNodeName(node)}`));
+      return false;
+    }
+
+    if (node.type === 'ERROR') {
+      const token = getFirstToken(node);
+      const message = token.text.length > 0 ? `unexpected token '${token.text}'` : 'syntax error';
+      diagnostics.push(createDiagnostic(TreeSitterUtil.range(token), message));
+      return false;
+    }
+
+    return node.hasError();
+  });
+
+  return diagnostics;
+}
+
+function createDiagnostic(range: LSP.Range, message: string): LSP.Diagnostic {
+  return {
+    range,
+    message,
+    severity: LSP.DiagnosticSeverity.Error,
+    source: 'modelica',
+  };
+}
+
+/**
+ * Returns the position right after the token preceding a missing node, so
+ * e.g. a missing `;` is reported at the end of the line instead of the start
+ * of the next one.
+ */
+function getMissingRange(node: Parser.SyntaxNode): LSP.Range {
+  // Sibling navigation is unreliable around zero-width nodes, so search the
+  // text for the previous token instead.
+  const text = node.tree.rootNode.text;
+  let index = node.startIndex;
+  while (index > 0 && /\s/.test(text[index - 1])) {
+    index--;
+  }
+
+  const previous = index > 0 ? node.tree.rootNode.descendantForIndex(index - 1) : node;
+  const position = TreeSitterUtil.pointToPosition(previous.endPosition);
+  return LSP.Range.create(position, position);
+}
+
+function getNodeName(node: Parser.SyntaxNode): string {
+  if (!node.isNamed()) {
+    return `'${node.type}'`;
+  }
+
+  return NODE_NAMES[node.type] ?? node.type.replace(/_/g, ' ');
+}
+
+function getFirstToken(node: Parser.SyntaxNode): Parser.SyntaxNode {
+  while (node.firstChild) {
+    node = node.firstChild;
+  }
+  return node;
+}
@@ -0,0 +1,150 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { ModelicaDocument } from '../project';
+
+/**
+ * Matches the color attributes of graphical annotations, e.g. `color`,
+ * `lineColor`, `fillColor` or `textColor`.
+ */
+const COLOR_NAME_PATTERN = /^(?:color|\w+Color)$/;
+
+/**
+ * Finds the `{r, g, b}` colors of the graphical annotations in a document.
+ *
+ * @param document the document
+ * @returns the colors and the ranges of their array constructors
+ */
+export function getDocumentColors(document: ModelicaDocument): LSP.ColorInformation[] {
+  const colors: LSP.ColorInformation[] = [];
+
+  TreeSitterUtil.forEach(document.tree.rootNode, (node) => {
+    if (node.type !== 'annotation_clause') {
+      return true;
+    }
+
+    TreeSitterUtil.forEach(node, (child) => {
+      const value = getColorValue(child);
+      const components = value && getColorComponents(value);
+      if (!value || !components) {
+        return true;
+      }
+
+      const [red, green, blue] = components.map((component) => component / 255);
+      colors.push({
+        range: TreeSitterUtil.range(value),
+        color: LSP.Color.create(red, green, blue, 1),
+      });
+      return false;
+    });
+    return false;
+  });
+
+  return colors;
+}
+
+/**
+ * Writes a color as `{r, g, b}` array constructor, using the spacing of the
+ * replaced colors.
+ *
+ * @param document the document
+ * @param color the picked color; the alpha channel is ignored
+ * @param range the range of the replaced color
+ * @returns the presentation of the color
+ */
+export function getColorPresentations(
+  document: ModelicaDocument,
+  color: LSP.Color,
+  range: LSP.Range,
+): LSP.ColorPresentation[] {
+  const separator = /,\s/.test(document.getText(range)) ? ', ' : ',';
+  const label = `{${[color.red, color.green, color.blue]
+    .map((component) => Math.round(component * 255))
+    .join(separator)}}`;
+
+  return [{ label, textEdit: LSP.TextEdit.replace(range, label) }];
+}
+
+/**
+ * Returns the value of a color modification, e.g. `{0, 0, 255}` for
+ * `lineColor = {0, 0, 255}` or `Line(color = {0, 0, 255})`.
+ */
+function getColorValue(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  let name: string | undefined;
+  let value: Parser.SyntaxNode | null | undefined;
+  switch (node.type) {
+    case 'element_modification':
+      name = node.childForFieldName('name')?.text;
+      value = node.childForFieldName('modification')?.childForFieldName('expression');
+      break;
+    case 'named_argument':
+      name = node.childForFieldName('identifier')?.text;
+      value = node.childForFieldName('expression');
+      break;
+    default:
+      return null;
+  }
+
+  if (!name || !COLOR_NAME_PATTERN.test(name)) {
+    return null;
+  }
+
+  // expression > simple_expression > primary_expression > array_constructor
+  while (value && value.type !== 'array_constructor' && value.namedChildCount === 1) {
+    value = value.namedChild(0);
+  }
+
+  return value?.type === 'array_constructor' ? value : null;
+}
+
+/**
+ * Returns the components of an `{r, g, b}` array constructor with integer
+ * literals between 0 and 255.
+ */
+function getColorComponents(arrayConstructor: Parser.SyntaxNode): number[] | null {
+  const args = arrayConstructor.childForFieldName('arguments');
+  if (args?.type !== 'array_arguments' || args.namedChildCount !== 3) {
+    return null;
+  }
+
+  const components = args.namedChildren.map((argument) =>
+    /^\d+$/.test(argument.text) ? Number(argument.text) : NaN,
+  );
+  return components.every((component) => component <= 255) ? components : null;
+}
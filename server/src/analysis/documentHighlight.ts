@@ -0,0 +1,140 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { logger } from '../util/logger';
+import { ModelicaDocument } from '../project';
+import { ResolvedReference } from './reference';
+import { forEachReference, getDeclarationIdentifier, resolveOccurrence } from './referenceIndex';
+
+/**
+ * Finds all occurrences of a symbol in a document.
+ *
+ * Variables are marked as written on the left side of algorithm assignments
+ * and inside `der()` and `reinit()`, and as read everywhere else. The
+ * declaration itself is marked as text.
+ *
+ * @param document the document to search
+ * @param declaration the resolved declaration of the symbol
+ * @returns the highlights
+ */
+export function getDocumentHighlights(
+  document: ModelicaDocument,
+  declaration: ResolvedReference,
+): LSP.DocumentHighlight[] {
+  const name = declaration.symbols.at(-1)!;
+  const highlights: LSP.DocumentHighlight[] = [];
+
+  const identifier = getDeclarationIdentifier(declaration);
+  if (identifier && declaration.document.uri === document.uri) {
+    highlights.push(
+      LSP.DocumentHighlight.create(
+        TreeSitterUtil.range(identifier),
+        LSP.DocumentHighlightKind.Text,
+      ),
+    );
+  }
+
+  forEachReference(document, (node, reference) => {
+    if (node.text !== name || identifier?.equals(node)) {
+      return;
+    }
+
+    try {
+      const resolved = resolveOccurrence(document.project, reference);
+      if (!declaration.equals(resolved)) {
+        return;
+      }
+    } catch (e: unknown) {
+      logger.debug(`Failed to resolve ${reference}: `, e);
+      return;
+    }
+
+    const kind =
+      declaration.kind === 'variable' && isWritten(node)
+        ? LSP.DocumentHighlightKind.Write
+        : LSP.DocumentHighlightKind.Read;
+    highlights.push(LSP.DocumentHighlight.create(TreeSitterUtil.range(node), kind));
+  });
+
+  return highlights;
+}
+
+/**
+ * Checks if the component reference containing an identifier is assigned to.
+ */
+function isWritten(identifier: Parser.SyntaxNode): boolean {
+  let componentReference = identifier.parent!;
+  while (componentReference.parent?.type === 'component_reference') {
+    componentReference = componentReference.parent;
+  }
+
+  const contains = (node: Parser.SyntaxNode | null) =>
+    node != null &&
+    node.startIndex <= componentReference.startIndex &&
+    componentReference.endIndex <= node.endIndex;
+
+  for (let node = componentReference.parent; node !== null; node = node.parent) {
+    switch (node.type) {
+      case 'assignment_statement':
+      case 'multiple_output_function_application_statement':
+        return contains(node.childForFieldName('targetExpression'));
+      case 'function_application':
+        if (node.childForFieldName('der') != null) {
+          return true;
+        }
+        break;
+      case 'function_application_equation':
+      case 'function_application_statement':
+        // reinit(x, expr) assigns to its first argument
+        if (node.childForFieldName('functionReference')?.text === 'reinit') {
+          const firstArgument = node
+            .childForFieldName('arguments')
+            ?.childForFieldName('arguments')
+            ?.childForFieldName('argument');
+          return contains(firstArgument ?? null);
+        }
+        break;
+      case 'equation_section':
+      case 'algorithm_section':
+        return false;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,113 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import { logger } from '../util/logger';
+import { DocumentChangeEvent, ModelicaDocument, ModelicaProject } from '../project';
+
+/**
+ * Base class of indexes storing an entry per document of a project.
+ *
+ * Documents are indexed lazily: changed documents are only marked as dirty and
+ * are re-indexed by {@link indexDocument} on the next query.
+ */
+export abstract class DocumentIndex<T> {
+  readonly #entries = new Map<string, { document: ModelicaDocument; entry: T }>();
+  readonly #dirtyDocuments = new Map<string, ModelicaDocument>();
+  readonly #description: string;
+
+  /**
+   * @param project the indexed project
+   * @param description what is indexed, used for logging
+   */
+  protected constructor(project: ModelicaProject, description: string) {
+    this.#description = description;
+    for (const library of project.libraries) {
+      for (const document of library.documents.values()) {
+        this.#dirtyDocuments.set(document.uri, document);
+      }
+    }
+
+    project.onDidChangeDocument(this.onDidChangeDocument.bind(this));
+  }
+
+  /**
+   * Re-indexes all dirty documents.
+   */
+  public update(): void {
+    if (this.#dirtyDocuments.size === 0) {
+      return;
+    }
+
+    logger.debug(`Indexing ${this.#description} of ${this.#dirtyDocuments.size} documents...`);
+    for (const document of this.#dirtyDocuments.values()) {
+      this.#entries.set(document.uri, { document, entry: this.indexDocument(document) });
+    }
+    this.#dirtyDocuments.clear();
+  }
+
+  /**
+   * Computes the entry of a document.
+   */
+  protected abstract indexDocument(document: ModelicaDocument): T;
+
+  /**
+   * Returns the entries of all documents, re-indexing dirty documents first.
+   */
+  protected entries(): T[] {
+    this.update();
+    return [...this.#entries.values()].map(({ entry }) => entry);
+  }
+
+  /**
+   * Marks the documents whose current entries match a predicate as dirty.
+   */
+  protected invalidate(predicate: (entry: T) => boolean): void {
+    for (const { document, entry } of this.#entries.values()) {
+      if (!this.#dirtyDocuments.has(document.uri) && predicate(entry)) {
+        this.#dirtyDocuments.set(document.uri, document);
+      }
+    }
+  }
+
+  protected onDidChangeDocument({ document, kind }: DocumentChangeEvent): void {
+    if (kind === 'removed') {
+      this.#dirtyDocuments.delete(document.uri);
+      this.#entries.delete(document.uri);
+      return;
+    }
+
+    this.#dirtyDocuments.set(document.uri, document);
+  }
+}
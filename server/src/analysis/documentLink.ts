@@ -0,0 +1,161 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import url from 'node:url';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { ModelicaDocument, ModelicaProject } from '../project';
+import { UnresolvedAbsoluteReference } from './reference';
+import resolveReference from './resolveReference';
+
+/**
+ * Matches `modelica://` URIs in string literals, which are quoted with `\"` in
+ * HTML documentation.
+ */
+const MODELICA_URI_PATTERN = /modelica:\/\/[^\s"'<>\\]+/gi;
+
+interface ModelicaUri {
+  uri: string;
+  range: LSP.Range;
+  /**
+   * The URI of the class or resource file, `null` if it doesn't exist or
+   * `undefined` if its library isn't loaded.
+   */
+  target: LSP.URI | null | undefined;
+}
+
+/**
+ * Creates links for the `modelica://` URIs in the string literals of a
+ * document, e.g. in `Documentation(info = ...)` or `loadResource(...)`.
+ *
+ * @param document the document
+ * @returns links to classes and resource files, excluding missing targets
+ */
+export function getDocumentLinks(document: ModelicaDocument): LSP.DocumentLink[] {
+  return findModelicaUris(document).flatMap(({ uri, range, target }) =>
+    target ? [{ range, target, tooltip: uri }] : [],
+  );
+}
+
+/**
+ * Warns about `modelica://` URIs whose class or resource file doesn't exist.
+ * URIs into libraries that aren't loaded are not reported.
+ *
+ * @param document the document
+ * @returns one warning per broken link
+ */
+export function getDocumentLinkDiagnostics(document: ModelicaDocument): LSP.Diagnostic[] {
+  return findModelicaUris(document)
+    .filter(({ target }) => target === null)
+    .map(({ uri, range }) => ({
+      range,
+      message: `Link target '${uri}' not found`,
+      severity: LSP.DiagnosticSeverity.Warning,
+      source: 'modelica',
+    }));
+}
+
+/**
+ * Resolves a `modelica://` URI.
+ *
+ * `modelica://Lib.Pkg.Class` refers to a class, `modelica://Lib.Pkg/path`
+ * refers to the file `path` in the directory of `Lib.Pkg`.
+ *
+ * @param project the project
+ * @param uri the `modelica://` URI
+ * @returns the URI of the class document or resource file, `null` if the
+ *     target doesn't exist or `undefined` if its library isn't loaded
+ */
+export function resolveModelicaUri(
+  project: ModelicaProject,
+  uri: string,
+): LSP.URI | null | undefined {
+  const match = uri.match(/^modelica:\/\/([^/?#]+)([^?#]*)/i);
+  if (!match) {
+    return null;
+  }
+
+  let symbols: string[];
+  let resourcePath: string;
+  try {
+    symbols = decodeURIComponent(match[1]).split('.');
+    resourcePath = decodeURIComponent(match[2]);
+  } catch {
+    return null;
+  }
+
+  const library = project.libraries.find((library) => library.name === symbols[0]);
+  if (!library) {
+    return undefined;
+  }
+
+  if (resourcePath.replace(/\/+$/, '').length > 0) {
+    const resourceFile = path.join(library.path, ...symbols.slice(1), resourcePath);
+    return fs.existsSync(resourceFile) ? url.pathToFileURL(resourceFile).href : null;
+  }
+
+  const classRef = resolveReference(project, new UnresolvedAbsoluteReference(symbols, 'class'));
+  // Document links can only target whole files, clients don't agree on a
+  // fragment for positions
+  return classRef?.document.uri ?? null;
+}
+
+function findModelicaUris(document: ModelicaDocument): ModelicaUri[] {
+  const uris: ModelicaUri[] = [];
+
+  TreeSitterUtil.forEach(document.tree.rootNode, (node) => {
+    if (node.type !== 'STRING') {
+      return true;
+    }
+
+    for (const match of node.text.matchAll(MODELICA_URI_PATTERN)) {
+      const startIndex = node.startIndex + match.index!;
+      uris.push({
+        uri: match[0],
+        range: LSP.Range.create(
+          document.positionAt(startIndex),
+          document.positionAt(startIndex + match[0].length),
+        ),
+        target: resolveModelicaUri(document.project, match[0]),
+      });
+    }
+    return false;
+  });
+
+  return uris;
+}
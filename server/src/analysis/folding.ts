@@ -0,0 +1,86 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+
+/**
+ * Computes the folding ranges of a document.
+ *
+ * Class bodies, equation and algorithm sections, public and protected element
+ * lists, annotations and block comments spanning multiple lines can be
+ * folded. Annotations are folded as regions, so they can be collapsed all at
+ * once.
+ *
+ * @param tree the syntax tree of the document
+ * @returns the folding ranges
+ */
+export function getFoldingRanges(tree: Parser.Tree): LSP.FoldingRange[] {
+  const ranges: LSP.FoldingRange[] = [];
+
+  const addRange = (node: Parser.SyntaxNode, endLine: number, kind?: LSP.FoldingRangeKind) => {
+    const startLine = node.startPosition.row;
+    if (endLine > startLine) {
+      ranges.push(LSP.FoldingRange.create(startLine, endLine, undefined, undefined, kind));
+    }
+  };
+
+  TreeSitterUtil.forEach(tree.rootNode, (node) => {
+    switch (node.type) {
+      case 'class_definition':
+        // Keep `end Name;` visible
+        addRange(node, node.endPosition.row - 1);
+        return true;
+      case 'equation_section':
+      case 'algorithm_section':
+      case 'public_element_list':
+      case 'protected_element_list':
+        addRange(node, node.endPosition.row);
+        return true;
+      case 'annotation_clause':
+        addRange(node, node.endPosition.row, LSP.FoldingRangeKind.Region);
+        return false;
+      case 'BLOCK_COMMENT':
+        addRange(node, node.endPosition.row, LSP.FoldingRangeKind.Comment);
+        return false;
+      default:
+        return true;
+    }
+  });
+
+  return ranges;
+}
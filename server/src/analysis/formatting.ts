@@ -0,0 +1,620 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { logger } from '../util/logger';
+
+export interface FormattingOptions {
+  /**
+   * Number of spaces per indentation level.
+   */
+  tabSize: number;
+  /**
+   * Indent with spaces instead of tabs.
+   */
+  insertSpaces: boolean;
+  /**
+   * Lines longer than this are wrapped: component lists get one component
+   * per line and annotations are broken at their arguments.
+   */
+  maxLineLength: number;
+  /**
+   * Re-wrap annotations to {@link maxLineLength}, ignoring their original
+   * line breaks.
+   */
+  reflowAnnotations: boolean;
+}
+
+export const DEFAULT_FORMATTING_OPTIONS: FormattingOptions = {
+  tabSize: 2,
+  insertSpaces: true,
+  maxLineLength: 100,
+  reflowAnnotations: true,
+};
+
+/**
+ * Lists whose elements are indented by one level.
+ */
+const INDENTED_LISTS = new Set([
+  'element_list',
+  'public_element_list',
+  'protected_element_list',
+  'equation_list',
+  'statement_list',
+]);
+
+/**
+ * Nodes whose keywords start a line without continuation indentation, e.g.
+ * the `else` of an `if` equation.
+ */
+const COMPOUND_NODES = new Set([
+  'if_equation',
+  'if_statement',
+  'else_if_equation_clause',
+  'else_if_statement_clause',
+  'for_equation',
+  'for_statement',
+  'while_statement',
+  'when_equation',
+  'when_statement',
+  'else_when_equation_clause',
+  'else_when_statement_clause',
+]);
+
+/**
+ * Keywords ending a list of elements, equations or statements. Comments
+ * before them belong to the list and are indented like its elements.
+ */
+const LIST_END_KEYWORDS = new Set([
+  'end',
+  'else',
+  'elseif',
+  'elsewhen',
+  'equation',
+  'algorithm',
+  'public',
+  'protected',
+]);
+
+/**
+ * Keywords that are directly followed by parentheses like function calls.
+ */
+const CALL_KEYWORDS = new Set(['der', 'initial', 'connect', 'annotation', 'pure']);
+
+const OPENING_BRACKETS = new Set(['(', '[', '{']);
+const CLOSING_BRACKETS = new Set([')', ']', '}']);
+
+/**
+ * Maximum number of wrapping passes, see {@link Formatter.wrap}.
+ */
+const MAX_WRAP_PASSES = 20;
+
+/**
+ * Formats a document, or only the lines of a range.
+ *
+ * Indentation and the spacing between tokens are derived from the syntax
+ * tree. Line breaks are kept, except in annotations when
+ * {@link FormattingOptions.reflowAnnotations} is set. Comments and strings
+ * are never changed, except that the continuation lines of block comments
+ * move along with their first line. Documents with syntax errors are not
+ * formatted.
+ *
+ * @param tree the syntax tree of the document
+ * @param text the text of the document
+ * @param options the formatting options
+ * @param range the range to format, or `undefined` to format everything
+ * @returns the edits formatting the document
+ */
+export function getFormattingEdits(
+  tree: Parser.Tree,
+  text: string,
+  options: FormattingOptions,
+  range?: LSP.Range,
+): LSP.TextEdit[] {
+  if (tree.rootNode.hasError()) {
+    logger.info('Not formatting document with syntax errors');
+    return [];
+  }
+
+  const formatter = new Formatter(tree, options);
+  formatter.wrap();
+  const gaps = formatter.render().gaps;
+
+  const document = TextDocument.create('', 'modelica', 0, text);
+  const edits: LSP.TextEdit[] = [];
+  const tokens = formatter.tokens;
+  for (let i = 0; i <= tokens.length; i++) {
+    const start = i === 0 ? 0 : tokens[i - 1].endIndex;
+    const end = i === tokens.length ? text.length : tokens[i].startIndex;
+    if (text.slice(start, end) === gaps[i]) {
+      continue;
+    }
+
+    const editRange = LSP.Range.create(document.positionAt(start), document.positionAt(end));
+    if (range && (editRange.end.line < range.start.line || editRange.end.line > range.end.line)) {
+      continue;
+    }
+    edits.push(LSP.TextEdit.replace(editRange, gaps[i]));
+
+    if (tokens[i]?.type === 'BLOCK_COMMENT' && gaps[i].includes('\n')) {
+      for (const edit of getBlockCommentEdits(document, tokens[i], gaps[i], options)) {
+        if (
+          !range ||
+          (edit.range.start.line >= range.start.line && edit.range.start.line <= range.end.line)
+        ) {
+          edits.push(edit);
+        }
+      }
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Shifts the continuation lines of a block comment starting a line by as much
+ * as its first line is re-indented, keeping their relative indentation.
+ *
+ * @param document the document
+ * @param comment the `BLOCK_COMMENT` token
+ * @param gap the new whitespace before the comment
+ * @param options the formatting options
+ * @returns the edits of the leading whitespace of the continuation lines
+ */
+function getBlockCommentEdits(
+  document: TextDocument,
+  comment: Parser.SyntaxNode,
+  gap: string,
+  options: FormattingOptions,
+): LSP.TextEdit[] {
+  const text = document.getText();
+  const oldIndentation = text.slice(
+    text.lastIndexOf('\n', comment.startIndex - 1) + 1,
+    comment.startIndex,
+  );
+  const newIndentation = gap.slice(gap.lastIndexOf('\n') + 1);
+  const shift = getWidth(newIndentation, options) - getWidth(oldIndentation, options);
+  if (shift === 0) {
+    return [];
+  }
+
+  const edits: LSP.TextEdit[] = [];
+  for (const match of comment.text.matchAll(/\n([ \t]*)(?=[^\s])/g)) {
+    const start = comment.startIndex + match.index! + 1;
+    const width = Math.max(getWidth(match[1], options) + shift, 0);
+    const whitespace = options.insertSpaces
+      ? ' '.repeat(width)
+      : '\t'.repeat(Math.floor(width / options.tabSize)) + ' '.repeat(width % options.tabSize);
+    edits.push(
+      LSP.TextEdit.replace(
+        LSP.Range.create(document.positionAt(start), document.positionAt(start + match[1].length)),
+        whitespace,
+      ),
+    );
+  }
+
+  return edits;
+}
+
+interface RenderResult {
+  /**
+   * The whitespace before each token, and after the last token.
+   */
+  gaps: string[];
+  /**
+   * The line each token starts on.
+   */
+  rows: number[];
+  /**
+   * The length of each line.
+   */
+  lineLengths: number[];
+}
+
+class Formatter {
+  public readonly tokens: Parser.SyntaxNode[] = [];
+  readonly #options: FormattingOptions;
+  readonly #tokenIndices = new Map<number, number>();
+  /**
+   * Gaps that always contain a line break.
+   */
+  readonly #breaks = new Set<number>();
+  /**
+   * Gaps whose original line breaks are ignored.
+   */
+  readonly #joined = new Set<number>();
+  /**
+   * Index of the matching bracket of each bracket token.
+   */
+  readonly #brackets = new Map<number, number>();
+
+  public constructor(tree: Parser.Tree, options: FormattingOptions) {
+    this.#options = options;
+
+    const stack: number[] = [];
+    const visit = (node: Parser.SyntaxNode) => {
+      if (node.childCount === 0) {
+        const index = this.tokens.push(node) - 1;
+        if (!this.#tokenIndices.has(node.startIndex)) {
+          this.#tokenIndices.set(node.startIndex, index);
+        }
+        if (OPENING_BRACKETS.has(node.type)) {
+          stack.push(index);
+        } else if (CLOSING_BRACKETS.has(node.type) && stack.length > 0) {
+          const open = stack.pop()!;
+          this.#brackets.set(open, index);
+          this.#brackets.set(index, open);
+        }
+        return;
+      }
+      for (const child of node.children) {
+        visit(child);
+      }
+    };
+    visit(tree.rootNode);
+
+    if (options.reflowAnnotations) {
+      for (const annotation of tree.rootNode.descendantsOfType('annotation_clause')) {
+        const [first, last] = this.getTokenRange(annotation);
+        for (let i = first + 1; i <= last; i++) {
+          if (!isComment(this.tokens[i - 1]) && !isComment(this.tokens[i])) {
+            this.#joined.add(i);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Adds line breaks until no line is longer than the maximum line length.
+   *
+   * Long component lists are split after each comma. Annotations are broken
+   * at the arguments of their outermost modification first, then at the
+   * arguments of nested modifications and arrays.
+   */
+  public wrap(): void {
+    const tree = this.tokens[0]?.tree;
+    if (!tree) {
+      return;
+    }
+
+    const componentLists = tree.rootNode
+      .descendantsOfType('component_list')
+      .filter((list) => list.namedChildCount > 1);
+    const annotations = tree.rootNode.descendantsOfType('annotation_clause');
+
+    for (let pass = 0; pass < MAX_WRAP_PASSES; pass++) {
+      const { rows, lineLengths } = this.render();
+      const isTooLong = (first: number, last: number) => {
+        for (let row = rows[first]; row <= rows[last]; row++) {
+          if (lineLengths[row] > this.#options.maxLineLength) {
+            return true;
+          }
+        }
+        return false;
+      };
+
+      let changed = false;
+      for (const list of componentLists) {
+        const [first, last] = this.getTokenRange(list.parent ?? list);
+        if (isTooLong(first, last)) {
+          for (const comma of list.children.filter((child) => child.type === ',')) {
+            const index = this.#tokenIndices.get(comma.startIndex)! + 1;
+            changed ||= !this.#breaks.has(index);
+            this.#breaks.add(index);
+          }
+        }
+      }
+
+      if (this.#options.reflowAnnotations) {
+        for (const annotation of annotations) {
+          const [first, last] = this.getTokenRange(annotation);
+          if (isTooLong(first, last)) {
+            changed = this.breakOutermostBrackets(first, last, isTooLong) || changed;
+          }
+        }
+      }
+
+      if (!changed) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Breaks the outermost unbroken brackets between two tokens that contain
+   * too long lines.
+   *
+   * @returns `true` if a line break was added
+   */
+  private breakOutermostBrackets(
+    first: number,
+    last: number,
+    isTooLong: (first: number, last: number) => boolean,
+  ): boolean {
+    for (let i = first; i <= last; i++) {
+      const close = this.#brackets.get(i);
+      if (!OPENING_BRACKETS.has(this.tokens[i].type) || close === undefined) {
+        continue;
+      }
+
+      if (this.#breaks.has(i + 1)) {
+        // Already broken, look for nested brackets
+        continue;
+      }
+
+      if (!isTooLong(i, close)) {
+        // Skip nested brackets which fit
+        i = close;
+        continue;
+      }
+
+      this.#breaks.add(i + 1);
+      for (let j = i + 1; j < close; j++) {
+        if (this.tokens[j].type === ',') {
+          this.#breaks.add(j + 1);
+        } else if (this.#brackets.has(j) && OPENING_BRACKETS.has(this.tokens[j].type)) {
+          j = this.#brackets.get(j)!;
+        }
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Computes the whitespace between all tokens.
+   */
+  public render(): RenderResult {
+    const gaps: string[] = [];
+    const rows: number[] = [];
+    const lineLengths: number[] = [0];
+    const openBrackets: number[] = [];
+
+    for (let i = 0; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      const previous = this.tokens[i - 1];
+
+      let gap: string;
+      const newlines = i === 0 ? 0 : this.getNewlines(i);
+      if (newlines > 0) {
+        const next = this.getNextSignificantToken(i);
+        const brackets =
+          CLOSING_BRACKETS.has(next.type) && this.#brackets.has(this.tokens.indexOf(next, i))
+            ? openBrackets.slice(0, -1)
+            : openBrackets;
+        gap = '\n'.repeat(newlines) + this.getIndentation(next, brackets, rows);
+        if (isComment(token) && endsList(next)) {
+          gap += indent(1, this.#options);
+        }
+      } else {
+        gap = i === 0 || !needsSpace(previous, token) ? '' : ' ';
+      }
+
+      gaps.push(gap);
+      for (const line of gap.split('\n').slice(1)) {
+        lineLengths.push(0);
+        lineLengths[lineLengths.length - 1] += getWidth(line, this.#options);
+      }
+      if (!gap.includes('\n')) {
+        lineLengths[lineLengths.length - 1] += gap.length;
+      }
+
+      rows.push(lineLengths.length - 1);
+      const lines = token.text.split('\n');
+      lineLengths[lineLengths.length - 1] += getWidth(lines[0], this.#options);
+      for (const line of lines.slice(1)) {
+        lineLengths.push(getWidth(line, this.#options));
+      }
+
+      if (OPENING_BRACKETS.has(token.type) && this.#brackets.has(i)) {
+        openBrackets.push(rows[i]);
+      } else if (CLOSING_BRACKETS.has(token.type) && this.#brackets.has(i)) {
+        openBrackets.pop();
+      }
+    }
+    gaps.push('\n');
+
+    return { gaps, rows, lineLengths };
+  }
+
+  /**
+   * Returns the number of line breaks before a token.
+   */
+  private getNewlines(index: number): number {
+    if (this.#breaks.has(index)) {
+      return 1;
+    }
+
+    const previous = this.tokens[index - 1];
+    const token = this.tokens[index];
+    const original = token.startPosition.row - previous.endPosition.row;
+    if (previous.type === 'comment') {
+      // Line comments end at the end of the line
+      return Math.max(Math.min(original, 2), 1);
+    }
+
+    return this.#joined.has(index) ? 0 : Math.min(original, 2);
+  }
+
+  /**
+   * Returns the indentation of a token starting a line.
+   *
+   * The indentation level is the number of enclosing lists of elements,
+   * equations or statements, plus one level of continuation for each line
+   * with an unclosed bracket and for wrapped lines of elements, equations or
+   * statements.
+   *
+   * @param token the first token of the line
+   * @param openBrackets the lines of the unclosed brackets
+   * @param rows the lines of the previous tokens
+   */
+  private getIndentation(token: Parser.SyntaxNode, openBrackets: number[], rows: number[]): string {
+    let level = 0;
+    let unit: Parser.SyntaxNode | null = null;
+    for (let node: Parser.SyntaxNode = token; node.parent !== null; node = node.parent) {
+      const parent: Parser.SyntaxNode = node.parent;
+      if (INDENTED_LISTS.has(parent.type) && !token.equals(parent.firstChild!)) {
+        level++;
+      }
+      if (parent.type === 'annotation_clause' && parent.parent?.type === 'long_class_specifier') {
+        // Class annotations are indented like elements
+        level++;
+      }
+      if (
+        unit === null &&
+        (INDENTED_LISTS.has(parent.type) || parent.type === 'long_class_specifier')
+      ) {
+        unit = node;
+      }
+    }
+
+    const continuationRows = new Set(openBrackets);
+    const unitIndex = unit ? this.#tokenIndices.get(unit.startIndex) : undefined;
+    const isKeyword = !token.isNamed() && COMPOUND_NODES.has(token.parent?.type ?? '');
+    if (unitIndex !== undefined && unitIndex < rows.length && !isKeyword) {
+      continuationRows.add(rows[unitIndex]);
+    }
+    level += continuationRows.size;
+
+    return indent(level, this.#options);
+  }
+
+  /**
+   * Returns the token itself, or the first token after a comment.
+   */
+  private getNextSignificantToken(index: number): Parser.SyntaxNode {
+    for (let i = index; i < this.tokens.length; i++) {
+      if (!isComment(this.tokens[i])) {
+        return this.tokens[i];
+      }
+    }
+    return this.tokens[index];
+  }
+
+  /**
+   * Returns the indices of the first and last token of a node.
+   */
+  private getTokenRange(node: Parser.SyntaxNode): [number, number] {
+    const first = this.#tokenIndices.get(node.startIndex)!;
+    let last = first;
+    while (last + 1 < this.tokens.length && this.tokens[last + 1].endIndex <= node.endIndex) {
+      last++;
+    }
+    return [first, last];
+  }
+}
+
+/**
+ * Returns the whitespace indenting a line by the given number of levels.
+ */
+export function indent(level: number, options: FormattingOptions): string {
+  return options.insertSpaces ? ' '.repeat(level * options.tabSize) : '\t'.repeat(level);
+}
+
+/**
+ * Checks if a token is a keyword ending a list of elements, equations or
+ * statements, see {@link LIST_END_KEYWORDS}.
+ */
+function endsList(token: Parser.SyntaxNode): boolean {
+  if (token.type === 'initial') {
+    // `initial equation`, but not `initial()`
+    const section = token.parent?.type;
+    return section === 'equation_section' || section === 'algorithm_section';
+  }
+  return !token.isNamed() && LIST_END_KEYWORDS.has(token.type);
+}
+
+/**
+ * Returns the width of a line, counting tabs as {@link FormattingOptions.tabSize}
+ * columns.
+ */
+function getWidth(line: string, options: FormattingOptions): number {
+  return line.replace(/\t/g, ' '.repeat(options.tabSize)).length;
+}
+
+export function isComment(token: Parser.SyntaxNode): boolean {
+  return token.type === 'comment' || token.type === 'BLOCK_COMMENT';
+}
+
+/**
+ * Checks if two adjacent tokens on the same line are separated by a space.
+ */
+function needsSpace(left: Parser.SyntaxNode, right: Parser.SyntaxNode): boolean {
+  if (CLOSING_BRACKETS.has(right.type) || right.type === ',' || right.type === ';') {
+    return false;
+  }
+  if (OPENING_BRACKETS.has(left.type)) {
+    return false;
+  }
+  if (isUnaryOperator(left)) {
+    return false;
+  }
+  if (left.type === ',' || left.type === ';') {
+    return true;
+  }
+  if (left.type === '.') {
+    return false;
+  }
+  if (right.type === '.') {
+    // Keep the space before global names like `.Modelica.Constants.pi`
+    return right.parent?.childForFieldName('global')?.equals(right) ?? false;
+  }
+  if (left.type === ':' || right.type === ':') {
+    return false;
+  }
+  if (['^', '.^'].includes(left.type) || ['^', '.^'].includes(right.type)) {
+    return false;
+  }
+  if (right.type === '(') {
+    return !(left.type === 'IDENT' || left.type === ']' || CALL_KEYWORDS.has(left.type));
+  }
+  if (right.type === '[') {
+    return !(left.type === 'IDENT' || left.type === ']' || left.type === ')');
+  }
+  return true;
+}
+
+function isUnaryOperator(token: Parser.SyntaxNode): boolean {
+  return (
+    token.parent?.type === 'unary_expression' &&
+    token.parent.firstChild!.equals(token) &&
+    (token.type === '-' || token.type === '+' || token.type === '.-' || token.type === '.+')
+  );
+}
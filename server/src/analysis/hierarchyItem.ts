@@ -0,0 +1,94 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { getKind } from '../util/declarations';
+import { ModelicaProject } from '../project';
+import { ResolvedReference, UnresolvedAbsoluteReference } from './reference';
+import { getDeclarationIdentifier } from './referenceIndex';
+import resolveReference from './resolveReference';
+
+/**
+ * An item of a type or call hierarchy.
+ */
+export type HierarchyItem = LSP.TypeHierarchyItem & LSP.CallHierarchyItem;
+
+/**
+ * Creates a type or call hierarchy item for a class. The absolute path of the
+ * class is stored in the `data` of the item to resolve it again, see
+ * {@link resolveHierarchyItem}.
+ *
+ * @param classRef the resolved class
+ * @param defaultKind the symbol kind if the class has no known restriction
+ * @returns the hierarchy item
+ */
+export function createHierarchyItem(
+  classRef: ResolvedReference,
+  defaultKind: LSP.SymbolKind,
+): HierarchyItem {
+  const identifier = getDeclarationIdentifier(classRef) ?? classRef.node;
+
+  return {
+    name: classRef.symbols.at(-1)!,
+    kind: getKind(classRef.node) ?? defaultKind,
+    detail: classRef.symbols.slice(0, -1).join('.'),
+    uri: classRef.document.uri,
+    range: TreeSitterUtil.range(classRef.node),
+    selectionRange: TreeSitterUtil.range(identifier),
+    data: classRef.symbols,
+  };
+}
+
+/**
+ * Resolves the class of a hierarchy item created by
+ * {@link createHierarchyItem}.
+ *
+ * @param project the project
+ * @param item the type or call hierarchy item
+ * @returns the class, or `null` if it doesn't exist anymore
+ */
+export function resolveHierarchyItem(
+  project: ModelicaProject,
+  item: LSP.TypeHierarchyItem | LSP.CallHierarchyItem,
+): ResolvedReference | null {
+  const symbols: unknown = item.data;
+  if (!Array.isArray(symbols) || symbols.length === 0) {
+    return null;
+  }
+
+  return resolveReference(project, new UnresolvedAbsoluteReference(symbols, 'class'));
+}
@@ -0,0 +1,171 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { ResolvedReference } from './reference';
+
+/**
+ * Creates the hover card for a resolved symbol.
+ *
+ * For classes the card contains the restriction, the qualified name, the
+ * `extends` clauses and the description string. For components it contains
+ * the prefixes, the declared type, the binding or modifiers and the
+ * description string.
+ *
+ * @param reference the resolved symbol
+ * @returns the hover contents, or `null` if the symbol can't be described
+ */
+export function getHoverContents(reference: ResolvedReference): LSP.MarkupContent | null {
+  const signature =
+    reference.kind === 'class' ? getClassSignature(reference) : getComponentSignature(reference);
+  if (signature == null) {
+    return null;
+  }
+
+  const description =
+    reference.kind === 'class'
+      ? TreeSitterUtil.getDescriptionString(reference.node)
+      : getComponentDeclaration(reference)?.descriptionString;
+
+  const value = ['```modelica', signature, '```'];
+  if (description) {
+    value.push('', '---', '', description);
+  }
+
+  return {
+    kind: LSP.MarkupKind.Markdown,
+    value: value.join('\n'),
+  };
+}
+
+/**
+ * Renders the header of a class definition, e.g.
+ *
+ *     partial model Library.Package.Model
+ *       extends Base(k = 2);
+ */
+function getClassSignature(reference: ResolvedReference): string | null {
+  const classNode = reference.node;
+  if (classNode.type !== 'class_definition') {
+    return null;
+  }
+
+  const specifier = classNode.childForFieldName('classSpecifier');
+  const identifier = specifier?.childForFieldName('identifier');
+  if (!specifier || !identifier) {
+    return null;
+  }
+
+  const prefixes = classNode.children
+    .filter((child) => !child.isNamed() || child.type === 'class_prefixes')
+    .map((child) => child.text);
+  if (specifier.type === 'extends_class_specifier') {
+    prefixes.push('extends');
+  }
+
+  const header = [...prefixes, reference.symbols.join('.')].join(' ');
+
+  if (specifier.type !== 'long_class_specifier' && specifier.type !== 'extends_class_specifier') {
+    // Short class specifiers: `= Real(unit = "V")`, `= enumeration(...)`, `= der(...)`
+    const description = specifier.childForFieldName('descriptionString');
+    const definition = specifier.text
+      .slice(
+        identifier.endIndex - specifier.startIndex,
+        (description?.startIndex ?? specifier.endIndex) - specifier.startIndex,
+      )
+      .trim();
+    return `${header} ${definition}`;
+  }
+
+  const extendsClauses = specifier.children
+    .filter(TreeSitterUtil.isElementList)
+    .flatMap((elementList) => elementList.namedChildren)
+    .filter((element) => element.type === 'extends_clause')
+    .map((extendsClause) => `  ${extendsClause.text};`);
+
+  return [header, ...extendsClauses].join('\n');
+}
+
+/**
+ * Renders a component declaration, e.g.
+ *
+ *     parameter Real k = 1
+ */
+function getComponentSignature(reference: ResolvedReference): string | null {
+  const component = getComponentDeclaration(reference);
+  if (!component) {
+    return null;
+  }
+
+  const { clause, declaration } = component;
+  const typeSpecifier = clause.childForFieldName('typeSpecifier')?.text;
+  const subscripts = clause.childForFieldName('subscripts')?.text ?? '';
+  if (!typeSpecifier) {
+    return null;
+  }
+
+  return [
+    ...TreeSitterUtil.getComponentPrefixes(reference.node),
+    typeSpecifier + subscripts,
+    declaration.text,
+  ].join(' ');
+}
+
+interface ComponentDeclaration {
+  clause: Parser.SyntaxNode;
+  declaration: Parser.SyntaxNode;
+  descriptionString?: string;
+}
+
+function getComponentDeclaration(reference: ResolvedReference): ComponentDeclaration | null {
+  const clause = TreeSitterUtil.getComponentClause(reference.node);
+  const componentDeclaration = TreeSitterUtil.getComponentDeclaration(
+    reference.node,
+    reference.symbols.at(-1)!,
+  );
+  const declaration = componentDeclaration?.childForFieldName('declaration');
+  if (!clause || !componentDeclaration || !declaration) {
+    return null;
+  }
+
+  return {
+    clause,
+    declaration,
+    descriptionString: TreeSitterUtil.getDescriptionString(componentDeclaration),
+  };
+}
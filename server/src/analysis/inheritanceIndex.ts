@@ -0,0 +1,439 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { logger } from '../util/logger';
+import { DocumentChangeEvent, ModelicaDocument, ModelicaProject } from '../project';
+import { DocumentIndex } from './documentIndex';
+import { ResolvedReference } from './reference';
+import {
+  getDeclarationIdentifier,
+  getDeclarationKey,
+  getDeclaredNames,
+  toLocation,
+} from './referenceIndex';
+import {
+  getClassSymbols,
+  resolveElement,
+  resolveModifiedClass,
+  resolveSuperclass,
+} from './resolveReference';
+
+/**
+ * A class extending another class.
+ */
+export interface IndexedExtension {
+  /**
+   * The extending class.
+   */
+  subclass: ResolvedReference;
+  /**
+   * The key of the extended class, see {@link getDeclarationKey}.
+   */
+  superclassKey: string;
+}
+
+/**
+ * A `redeclare` of a replaceable class or component.
+ */
+export interface IndexedRedeclaration {
+  /**
+   * The document containing the redeclaration.
+   */
+  document: ModelicaDocument;
+  /**
+   * The `IDENT` node naming the redeclared element.
+   */
+  node: Parser.SyntaxNode;
+  /**
+   * The key of the replaced declaration, see {@link getDeclarationKey}.
+   */
+  declarationKey: string;
+}
+
+interface DocumentInheritance {
+  extensions: IndexedExtension[];
+  redeclarations: IndexedRedeclaration[];
+  /**
+   * The URIs of the documents declaring the superclasses and redeclared
+   * elements.
+   */
+  declaringDocuments: Set<string>;
+  /**
+   * The names of superclasses and redeclared elements that couldn't be
+   * resolved.
+   */
+  unresolvedNames: Set<string>;
+}
+
+/**
+ * Index of all `extends` relations and `redeclare` targets.
+ *
+ * Like in the reference index, a change of a document also invalidates the
+ * documents extending or redeclaring its classes, and the documents with
+ * unresolved superclasses or redeclarations it may declare.
+ */
+export class InheritanceIndex extends DocumentIndex<DocumentInheritance> {
+  public constructor(project: ModelicaProject) {
+    super(project, 'inheritance');
+  }
+
+  /**
+   * Finds the classes directly extending a class.
+   *
+   * @param declaration the resolved class
+   * @returns the extending classes
+   */
+  public getSubclasses(declaration: ResolvedReference): ResolvedReference[] {
+    const superclassKey = getDeclarationKey(declaration);
+    return this.entries()
+      .flatMap(({ extensions }) => extensions)
+      .filter((extension) => extension.superclassKey === superclassKey)
+      .map(({ subclass }) => subclass);
+  }
+
+  /**
+   * Finds the classes extending a class directly or transitively.
+   *
+   * @param declaration the resolved class
+   * @returns the extending classes, in breadth-first order
+   */
+  public getAllSubclasses(declaration: ResolvedReference): ResolvedReference[] {
+    const subclasses: ResolvedReference[] = [];
+    const visited = new Set([getDeclarationKey(declaration)]);
+    for (let i = -1; i < subclasses.length; i++) {
+      for (const subclass of this.getSubclasses(i < 0 ? declaration : subclasses[i])) {
+        const key = getDeclarationKey(subclass);
+        if (!visited.has(key)) {
+          visited.add(key);
+          subclasses.push(subclass);
+        }
+      }
+    }
+
+    return subclasses;
+  }
+
+  /**
+   * Finds all redeclarations of a replaceable class or component.
+   *
+   * @param declaration the resolved replaceable element
+   * @returns the redeclarations
+   */
+  public getRedeclarations(declaration: ResolvedReference): IndexedRedeclaration[] {
+    const declarationKey = getDeclarationKey(declaration);
+    return this.entries()
+      .flatMap(({ redeclarations }) => redeclarations)
+      .filter((redeclaration) => redeclaration.declarationKey === declarationKey);
+  }
+
+  protected indexDocument(document: ModelicaDocument): DocumentInheritance {
+    return collectInheritance(document);
+  }
+
+  protected onDidChangeDocument(event: DocumentChangeEvent): void {
+    super.onDidChangeDocument(event);
+
+    const { document, kind } = event;
+    const declaredNames = kind === 'removed' ? new Set<string>() : getDeclaredNames(document);
+    this.invalidate(
+      ({ declaringDocuments, unresolvedNames }) =>
+        declaringDocuments.has(document.uri) ||
+        [...declaredNames].some((name) => unresolvedNames.has(name)),
+    );
+  }
+}
+
+/**
+ * Finds the implementations of a declaration: all classes extending a
+ * `partial` class and all redeclarations of a `replaceable` element.
+ *
+ * @param declaration the resolved declaration
+ * @param index the inheritance index
+ * @returns the locations of the implementations
+ */
+export function getImplementations(
+  declaration: ResolvedReference,
+  index: InheritanceIndex,
+): LSP.Location[] {
+  const locations: LSP.Location[] = [];
+
+  const isPartial =
+    declaration.kind === 'class' &&
+    declaration.node.childForFieldName('classPrefixes')?.childForFieldName('partial') != null;
+  if (isPartial) {
+    for (const subclass of index.getAllSubclasses(declaration)) {
+      const identifier = getDeclarationIdentifier(subclass);
+      if (identifier) {
+        locations.push(toLocation({ document: subclass.document, node: identifier }));
+      }
+    }
+  }
+
+  if (isReplaceable(declaration.node)) {
+    locations.push(...index.getRedeclarations(declaration).map(toLocation));
+  }
+
+  return locations;
+}
+
+/**
+ * Resolves the superclasses and redeclaration targets of a document.
+ */
+function collectInheritance(document: ModelicaDocument): DocumentInheritance {
+  const extensions: IndexedExtension[] = [];
+  const redeclarations: IndexedRedeclaration[] = [];
+  const declaringDocuments = new Set<string>();
+  const unresolvedNames = new Set<string>();
+
+  const addExtension = (
+    classNode: Parser.SyntaxNode,
+    superclass: ResolvedReference | null,
+    names: string[],
+  ) => {
+    if (!superclass) {
+      names.forEach((name) => unresolvedNames.add(name));
+      return;
+    }
+
+    extensions.push({
+      subclass: new ResolvedReference(
+        document,
+        classNode,
+        getClassSymbols(document, classNode),
+        'class',
+      ),
+      superclassKey: getDeclarationKey(superclass),
+    });
+    declaringDocuments.add(superclass.document.uri);
+  };
+  const addRedeclaration = (
+    node: Parser.SyntaxNode | null,
+    declaration: ResolvedReference | null,
+    names: string[],
+  ) => {
+    if (!node) {
+      return;
+    }
+    if (!declaration) {
+      names.forEach((name) => unresolvedNames.add(name));
+      return;
+    }
+
+    redeclarations.push({ document, node, declarationKey: getDeclarationKey(declaration) });
+    declaringDocuments.add(declaration.document.uri);
+  };
+
+  TreeSitterUtil.forEach(document.tree.rootNode, (node) => {
+    try {
+      switch (node.type) {
+        case 'extends_clause': {
+          const classNode = TreeSitterUtil.findParent(node, (n) => n.type === 'class_definition');
+          if (classNode) {
+            addExtension(
+              classNode,
+              resolveSuperclass(document, node),
+              TreeSitterUtil.getTypeSpecifier(node).symbols,
+            );
+          }
+          return true;
+        }
+        case 'class_definition': {
+          const classSpecifier = node.childForFieldName('classSpecifier');
+          // Short classes like `replaceable package Medium = PartialMedium`
+          // only choose a class for a replaceable element, they don't
+          // implement it
+          const isReplacement =
+            isReplaceable(node) || node.parent?.childForFieldName('redeclare') != null;
+          if (classSpecifier?.type === 'short_class_specifier' && !isReplacement) {
+            addExtension(
+              node,
+              resolveSuperclass(document, classSpecifier),
+              TreeSitterUtil.getTypeSpecifier(classSpecifier).symbols,
+            );
+          } else if (classSpecifier?.type === 'extends_class_specifier') {
+            // class extends Inner
+            addExtension(node, resolveInheritedElement(document, node), getInheritedNames(node));
+          }
+          return true;
+        }
+        case 'named_element':
+          if (node.childForFieldName('redeclare')) {
+            for (const identifier of getIdentifierNodes(node)) {
+              addRedeclaration(
+                identifier,
+                resolveInheritedElement(document, node, identifier.text),
+                getInheritedNames(node, identifier.text),
+              );
+            }
+          }
+          return true;
+        case 'class_redeclaration':
+        case 'component_redeclaration': {
+          const classModification = node.parent?.parent ?? null;
+          const modifiedClass =
+            classModification && resolveModifiedClass(document, classModification);
+          for (const identifier of getIdentifierNodes(node)) {
+            addRedeclaration(
+              identifier,
+              modifiedClass && resolveElement(modifiedClass, identifier.text),
+              [identifier.text],
+            );
+          }
+          return true;
+        }
+        default:
+          return true;
+      }
+    } catch (e: unknown) {
+      logger.debug(`Failed to index ${node.type} in ${document.uri}: `, e);
+      return true;
+    }
+  });
+
+  return { extensions, redeclarations, declaringDocuments, unresolvedNames };
+}
+
+/**
+ * Checks if a class or component is declared `replaceable`.
+ *
+ * @param node a `class_definition` or `component_clause`
+ */
+export function isReplaceable(node: Parser.SyntaxNode): boolean {
+  return (
+    node.parent?.type === 'named_element' && node.parent.childForFieldName('replaceable') != null
+  );
+}
+
+/**
+ * Returns the `IDENT` nodes naming the classes or components declared by an
+ * element.
+ */
+function getIdentifierNodes(element: Parser.SyntaxNode): Parser.SyntaxNode[] {
+  const classSpecifier = element
+    .childForFieldName('classDefinition')
+    ?.childForFieldName('classSpecifier');
+  if (classSpecifier) {
+    const identifier = classSpecifier.childForFieldName('identifier');
+    return identifier ? [identifier] : [];
+  }
+
+  return (
+    element
+      .childForFieldName('componentClause')
+      ?.childForFieldName('componentDeclarations')
+      ?.namedChildren.map((declaration) =>
+        declaration.childForFieldName('declaration')?.childForFieldName('identifier'),
+      )
+      .filter((identifier): identifier is Parser.SyntaxNode => identifier != null) ?? []
+  );
+}
+
+/**
+ * Resolves the direct superclasses of a class: the classes of its extends
+ * clauses, the base class of a short class specifier and the inherited class
+ * of `class extends`.
+ *
+ * @param classRef the resolved class
+ * @returns the resolved superclasses
+ */
+export function getSuperclasses(classRef: ResolvedReference): ResolvedReference[] {
+  const { document, node } = classRef;
+  const classSpecifier = node.childForFieldName('classSpecifier');
+  if (classSpecifier?.type === 'short_class_specifier') {
+    const superclass = resolveSuperclass(document, classSpecifier);
+    return superclass ? [superclass] : [];
+  }
+
+  const superclasses = TreeSitterUtil.getClassElements(node)
+    .filter((element) => element.type === 'extends_clause')
+    .map((extendsClause) => resolveSuperclass(document, extendsClause));
+  if (classSpecifier?.type === 'extends_class_specifier') {
+    superclasses.unshift(resolveInheritedElement(document, node));
+  }
+
+  return superclasses.filter((superclass): superclass is ResolvedReference => superclass !== null);
+}
+
+/**
+ * Finds the element an element of a class replaces in the superclasses of
+ * that class, e.g. the inherited `Inner` of `class extends Inner`.
+ *
+ * @param document the document containing the element
+ * @param element a `named_element` or a `class_definition`
+ * @param name the name of the element, defaults to the name of the class
+ * @returns the inherited element, or `null` if not found
+ */
+export function resolveInheritedElement(
+  document: ModelicaDocument,
+  element: Parser.SyntaxNode,
+  name = TreeSitterUtil.getDeclaredIdentifiers(element)[0],
+): ResolvedReference | null {
+  const classNode = TreeSitterUtil.findParent(element, (n) => n.type === 'class_definition');
+  const extendsClauses = classNode
+    ? TreeSitterUtil.getClassElements(classNode).filter((n) => n.type === 'extends_clause')
+    : [];
+
+  for (const extendsClause of extendsClauses) {
+    const superclass = resolveSuperclass(document, extendsClause);
+    const inherited = superclass && resolveElement(superclass, name);
+    if (inherited) {
+      return inherited;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns the names {@link resolveInheritedElement} looks up: the name of the
+ * element and the superclasses of its class.
+ */
+function getInheritedNames(
+  element: Parser.SyntaxNode,
+  name = TreeSitterUtil.getDeclaredIdentifiers(element)[0],
+): string[] {
+  const classNode = TreeSitterUtil.findParent(element, (n) => n.type === 'class_definition');
+  const superclassNames = classNode
+    ? TreeSitterUtil.getClassElements(classNode)
+        .filter((n) => n.type === 'extends_clause')
+        .flatMap((extendsClause) => TreeSitterUtil.getTypeSpecifier(extendsClause).symbols)
+    : [];
+
+  return [name, ...superclassNames];
+}
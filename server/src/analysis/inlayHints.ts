@@ -0,0 +1,307 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { logger } from '../util/logger';
+import { ModelicaDocument } from '../project';
+import { ResolvedReference, UnresolvedRelativeReference } from './reference';
+import resolveReference, {
+  resolveCallee,
+  resolveSuperclass,
+  variableRefToClassRef,
+} from './resolveReference';
+import { getCallParameters } from './signatureHelp';
+
+export interface InlayHintOptions {
+  /**
+   * Show the names of parameters before positional arguments.
+   */
+  parameterNames: boolean;
+  /**
+   * Show the units of components after their declarations and references.
+   */
+  units: boolean;
+}
+
+export const DEFAULT_INLAY_HINT_OPTIONS: InlayHintOptions = {
+  parameterNames: true,
+  units: true,
+};
+
+/**
+ * Computes the inlay hints in a range of a document: parameter names before
+ * positional arguments of function calls and record constructors, e.g.
+ * `interp(x=t, table=tab)`, and units after components, e.g. `v [V]`.
+ *
+ * @param document the document
+ * @param range the range to compute hints for
+ * @param options the kinds of hints to compute
+ * @returns the inlay hints
+ */
+export function getInlayHints(
+  document: ModelicaDocument,
+  range: LSP.Range,
+  options: InlayHintOptions,
+): LSP.InlayHint[] {
+  const hints: LSP.InlayHint[] = [];
+  const startIndex = document.offsetAt(range.start);
+  const endIndex = document.offsetAt(range.end);
+
+  TreeSitterUtil.forEach(document.tree.rootNode, (node) => {
+    if (node.endIndex < startIndex || node.startIndex > endIndex) {
+      return false;
+    }
+
+    try {
+      if (options.parameterNames && node.type === 'function_call_args') {
+        hints.push(...getParameterNameHints(document, node));
+      } else if (options.units && node.type === 'component_declaration') {
+        const hint = getDeclarationUnitHint(document, node);
+        if (hint) {
+          hints.push(hint);
+        }
+      } else if (options.units && node.type === 'component_reference') {
+        const hint = getReferenceUnitHint(document, node);
+        if (hint) {
+          hints.push(hint);
+        }
+      }
+    } catch (e: unknown) {
+      logger.debug(`Failed to compute inlay hints of ${node.type}: `, e);
+    }
+
+    return true;
+  });
+
+  return hints;
+}
+
+/**
+ * Returns the parameter name hints of the positional arguments of a call.
+ */
+function getParameterNameHints(
+  document: ModelicaDocument,
+  callArgs: Parser.SyntaxNode,
+): LSP.InlayHint[] {
+  const functionReference = callArgs.parent?.childForFieldName('functionReference');
+  const functionArguments = callArgs.childForFieldName('arguments');
+  if (
+    functionReference?.type !== 'component_reference' ||
+    functionArguments?.type !== 'function_arguments' ||
+    // Reductions like `sum(x[i] for i in 1:n)` have no positional arguments
+    functionArguments.children.some((child) => child.type === 'for')
+  ) {
+    return [];
+  }
+
+  const callee = resolveCallee(document, functionReference.text, functionReference);
+  const parameters = callee && getCallParameters(callee);
+  if (!parameters) {
+    return [];
+  }
+
+  const positionalArguments = functionArguments.namedChildren.filter(
+    (child) => child.type === 'expression',
+  );
+  const hints: LSP.InlayHint[] = [];
+  for (let i = 0; i < positionalArguments.length && i < parameters.length; i++) {
+    const argument = positionalArguments[i];
+    if (argument.text === parameters[i].name) {
+      continue;
+    }
+
+    hints.push({
+      position: TreeSitterUtil.pointToPosition(argument.startPosition),
+      label: `${parameters[i].name}=`,
+      kind: LSP.InlayHintKind.Parameter,
+    });
+  }
+
+  return hints;
+}
+
+/**
+ * Returns the unit hint of a component declaration, unless the unit is
+ * already modified in the declaration itself.
+ */
+function getDeclarationUnitHint(
+  document: ModelicaDocument,
+  componentDeclaration: Parser.SyntaxNode,
+): LSP.InlayHint | null {
+  const declaration = componentDeclaration.childForFieldName('declaration');
+  const identifier = declaration?.childForFieldName('identifier');
+  const componentClause = TreeSitterUtil.findParent(
+    componentDeclaration,
+    (node) => node.type === 'component_clause',
+  );
+  if (!identifier || !componentClause) {
+    return null;
+  }
+
+  const modification = declaration!.childForFieldName('modification');
+  if (getModificationUnit(modification?.childForFieldName('classModification')) !== undefined) {
+    return null;
+  }
+
+  const component = new ResolvedReference(document, componentClause, [identifier.text], 'variable');
+  return createUnitHint(identifier, getComponentUnit(component));
+}
+
+/**
+ * Returns the unit hint of a component reference.
+ */
+function getReferenceUnitHint(
+  document: ModelicaDocument,
+  componentReference: Parser.SyntaxNode,
+): LSP.InlayHint | null {
+  const parent = componentReference.parent;
+  if (
+    // Only hint complete references, not the qualifier of `a.b`
+    parent?.type === 'component_reference' ||
+    parent?.childForFieldName('functionReference')?.equals(componentReference)
+  ) {
+    return null;
+  }
+
+  const { isGlobal, components, componentNodes } =
+    TreeSitterUtil.getComponentReference(componentReference);
+  if (isGlobal || componentNodes.length === 0) {
+    return null;
+  }
+
+  const component = resolveReference(
+    document.project,
+    new UnresolvedRelativeReference(document, componentNodes[0], components, 'variable'),
+  );
+  if (component?.kind !== 'variable') {
+    return null;
+  }
+
+  return createUnitHint(componentReference, getComponentUnit(component));
+}
+
+function createUnitHint(node: Parser.SyntaxNode, unit: string | undefined): LSP.InlayHint | null {
+  if (!unit) {
+    return null;
+  }
+
+  return {
+    position: TreeSitterUtil.pointToPosition(node.endPosition),
+    label: `[${unit}]`,
+    kind: LSP.InlayHintKind.Type,
+    paddingLeft: true,
+  };
+}
+
+/**
+ * Returns the unit of a component, either from the modification of its
+ * declaration, e.g. `Real v(unit = "V")`, or from its type, e.g.
+ * `SI.Voltage v`.
+ *
+ * @param component the resolved component
+ * @returns the unit, or `undefined` if the component has none
+ */
+export function getComponentUnit(component: ResolvedReference): string | undefined {
+  const declaration = TreeSitterUtil.getComponentDeclaration(
+    component.node,
+    component.symbols.at(-1)!,
+  )?.childForFieldName('declaration');
+  const unit = getModificationUnit(
+    declaration?.childForFieldName('modification')?.childForFieldName('classModification'),
+  );
+  if (unit !== undefined) {
+    return unit;
+  }
+
+  const type = variableRefToClassRef(component);
+  return type ? getClassUnit(type, new Set()) : undefined;
+}
+
+/**
+ * Returns the unit of a type, searching the modifications of its base classes,
+ * e.g. `"V"` for `type Voltage = Real(unit = "V")`.
+ */
+function getClassUnit(type: ResolvedReference, visited: Set<string>): string | undefined {
+  const key = `${type.document.uri}:${type.node.startIndex}`;
+  if (visited.has(key)) {
+    return undefined;
+  }
+  visited.add(key);
+
+  const classSpecifier = type.node.childForFieldName('classSpecifier');
+  const bases =
+    classSpecifier?.type === 'short_class_specifier'
+      ? [classSpecifier]
+      : TreeSitterUtil.getClassElements(type.node).filter((node) => node.type === 'extends_clause');
+
+  for (const base of bases) {
+    const unit = getModificationUnit(base.childForFieldName('classModification'));
+    if (unit !== undefined) {
+      return unit;
+    }
+
+    const superclass = resolveSuperclass(type.document, base);
+    const inheritedUnit = superclass ? getClassUnit(superclass, visited) : undefined;
+    if (inheritedUnit !== undefined) {
+      return inheritedUnit;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Returns the string value of the `unit` modification in a class
+ * modification, e.g. `"V"` for `(quantity = "ElectricPotential", unit = "V")`.
+ */
+function getModificationUnit(
+  classModification: Parser.SyntaxNode | null | undefined,
+): string | undefined {
+  const unitModification = classModification
+    ?.childForFieldName('arguments')
+    ?.namedChildren.find(
+      (argument) =>
+        argument.type === 'element_modification' &&
+        argument.childForFieldName('name')?.text === 'unit',
+    );
+  const value = unitModification
+    ?.childForFieldName('modification')
+    ?.childForFieldName('expression')?.text;
+
+  return value?.match(/^"(.*)"$/s)?.[1];
+}
@@ -0,0 +1,156 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { logger } from '../util/logger';
+import { ModelicaDocument } from '../project';
+import { ResolvedReference } from './reference';
+import { getDeclarationKey, ReferenceIndex } from './referenceIndex';
+import {
+  getClassSymbols,
+  isInnerDeclaration,
+  isOuterDeclaration,
+  resolveElement,
+  resolveInnerDeclaration,
+} from './resolveReference';
+
+/**
+ * Resolves the definition of a declaration. The definition of an `outer`
+ * component is the matching `inner` component, all other declarations are
+ * their own definition.
+ *
+ * The `inner` component is searched in the instance hierarchy: first in the
+ * classes instantiating the class of the `outer` component, then in the
+ * classes instantiating those, and so on. Classes extending a class share its
+ * instances. If the class isn't instantiated anywhere, its enclosing classes
+ * are searched instead.
+ *
+ * @param declaration the resolved declaration
+ * @param index the reference index
+ * @returns the definition, or the declaration itself if there is no matching
+ *     `inner` component
+ */
+export function resolveDefinition(
+  declaration: ResolvedReference,
+  index: ReferenceIndex,
+): ResolvedReference {
+  if (declaration.kind !== 'variable' || !isOuterDeclaration(declaration)) {
+    return declaration;
+  }
+
+  const name = declaration.symbols.at(-1)!;
+  const outerClass = getEnclosingClass(declaration.document, declaration.node);
+  if (!outerClass) {
+    return declaration;
+  }
+
+  const classes = [outerClass];
+  const visited = new Set([getDeclarationKey(outerClass)]);
+  for (let i = 0; i < classes.length; i++) {
+    for (const { document, node } of index.getReferences(classes[i])) {
+      const instantiation = getInstantiation(node);
+      const instantiatingClass = instantiation && getEnclosingClass(document, node);
+      if (!instantiatingClass) {
+        continue;
+      }
+
+      if (instantiation === 'component') {
+        const inner = resolveElement(instantiatingClass, name);
+        if (inner?.kind === 'variable' && isInnerDeclaration(inner)) {
+          logger.debug(
+            `Found inner declaration of ${name} in ${instantiatingClass.symbols.join('.')}`,
+          );
+          // `inner outer` components are defined further up
+          return isOuterDeclaration(inner) ? resolveDefinition(inner, index) : inner;
+        }
+      }
+
+      const key = getDeclarationKey(instantiatingClass);
+      if (!visited.has(key)) {
+        visited.add(key);
+        classes.push(instantiatingClass);
+      }
+    }
+  }
+
+  return resolveInnerDeclaration(declaration.document.project, declaration) ?? declaration;
+}
+
+/**
+ * Classifies a reference to a class by how it instantiates the class: as the
+ * type of a component, or as the base class of an `extends` clause or a short
+ * class specifier.
+ *
+ * @param node the `IDENT` node referencing the class
+ * @returns the kind of instantiation, or `null` if the reference doesn't
+ *     instantiate the class, e.g. in an import clause
+ */
+function getInstantiation(node: Parser.SyntaxNode): 'component' | 'extends' | null {
+  const typeSpecifier = TreeSitterUtil.findParent(node, (n) => n.type === 'type_specifier');
+  if (!typeSpecifier?.parent) {
+    return null;
+  }
+
+  // Only the last identifier of `Package.Class` refers to the class
+  const symbolNodes = TreeSitterUtil.getTypeSpecifier(typeSpecifier).symbolNodes;
+  if (!symbolNodes.at(-1)?.equals(node)) {
+    return null;
+  }
+
+  switch (typeSpecifier.parent.type) {
+    case 'component_clause':
+      return 'component';
+    case 'extends_clause':
+    case 'short_class_specifier':
+      return 'extends';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the class containing a node.
+ */
+function getEnclosingClass(
+  document: ModelicaDocument,
+  node: Parser.SyntaxNode,
+): ResolvedReference | null {
+  const classNode = TreeSitterUtil.findParent(node, (n) => n.type === 'class_definition');
+  return classNode
+    ? new ResolvedReference(document, classNode, getClassSymbols(document, classNode), 'class')
+    : null;
+}
@@ -0,0 +1,97 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+
+/**
+ * Modelica identifiers, so typing e.g. a space ends linked editing.
+ */
+const IDENTIFIER_PATTERN = '[A-Za-z_][A-Za-z0-9_]*';
+
+/**
+ * Links the name of a class to the name in its `end` clause, so editing one
+ * of them edits the other as well.
+ *
+ * @param tree the syntax tree of the document
+ * @param position the cursor position
+ * @returns the ranges of both names, or `null` if the cursor is not on the
+ *     name of a long class specifier
+ */
+export function getLinkedEditingRanges(
+  tree: Parser.Tree,
+  position: LSP.Position,
+): LSP.LinkedEditingRanges | null {
+  const classSpecifier = findClassSpecifier(tree, position);
+  const identifier = classSpecifier?.childForFieldName('identifier');
+  const endIdentifier = classSpecifier?.childForFieldName('endIdentifier');
+  if (!identifier || !endIdentifier) {
+    return null;
+  }
+
+  return {
+    ranges: [TreeSitterUtil.range(identifier), TreeSitterUtil.range(endIdentifier)],
+    wordPattern: IDENTIFIER_PATTERN,
+  };
+}
+
+/**
+ * Returns the long class specifier whose name or end name contains the
+ * position, including the position right after the name.
+ */
+function findClassSpecifier(tree: Parser.Tree, position: LSP.Position): Parser.SyntaxNode | null {
+  const point = TreeSitterUtil.positionToPoint(position);
+  const candidates = [point];
+  if (point.column > 0) {
+    candidates.push({ row: point.row, column: point.column - 1 });
+  }
+
+  for (const candidate of candidates) {
+    const node = tree.rootNode.descendantForPosition(candidate);
+    const parent = node.parent;
+    if (
+      node.type === 'IDENT' &&
+      parent?.type === 'long_class_specifier' &&
+      (parent.childForFieldName('identifier')?.equals(node) ||
+        parent.childForFieldName('endIdentifier')?.equals(node))
+    ) {
+      return parent;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,360 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { FormattingOptions, getFormattingEdits, indent, isComment } from './formatting';
+
+/**
+ * Keywords starting a section of a class, which are indented like the class.
+ */
+const SECTION_KEYWORDS = new Set(['equation', 'algorithm', 'public', 'protected']);
+
+/**
+ * Keywords starting an if, for, when or while block.
+ */
+const BLOCK_KEYWORDS = new Set(['if', 'for', 'when', 'while']);
+
+/**
+ * Keywords starting another branch of a block, which are indented like the
+ * block.
+ */
+const BRANCH_KEYWORDS = new Set(['elseif', 'else', 'elsewhen']);
+
+const OPENING_BRACKETS = new Set(['(', '[', '{']);
+const CLOSING_BRACKETS = new Set([')', ']', '}']);
+
+/**
+ * A class or an if, for, when or while block that is open at some token.
+ */
+interface Block {
+  /**
+   * The indentation level of the line opening the block.
+   */
+  level: number;
+  /**
+   * The name of a class, `undefined` for other blocks.
+   */
+  className?: string;
+  /**
+   * Index of the last token of the class header, e.g. the description string.
+   */
+  headerEnd?: number;
+  /**
+   * `true` until the `then` or `loop` of the block.
+   */
+  isInHeader?: boolean;
+}
+
+interface ScanResult {
+  blocks: Block[];
+  /**
+   * The lines of the unclosed brackets of the current element, equation or
+   * statement.
+   */
+  openBrackets: number[];
+  /**
+   * The line of the first token of the current element, equation or
+   * statement, or `undefined` if the next token starts a new one.
+   */
+  unitStartRow?: number;
+}
+
+/**
+ * Formats the document while typing.
+ *
+ * On newline, the new line and lines starting with a section keyword,
+ * `else` or `end` are (re-)indented, and `end Name;` is inserted after the
+ * header of an unterminated class. On `;`, the current line is formatted.
+ *
+ * Documents are usually broken while typing, so blocks are tracked on the
+ * tokens instead of the syntax tree. The indentation follows the rules of
+ * the formatter: elements, equations and statements are indented by one
+ * level inside classes and blocks, and wrapped lines and unclosed brackets
+ * add one level of continuation.
+ *
+ * @param tree the syntax tree of the document
+ * @param text the text of the document
+ * @param position the position of the cursor after the typed character
+ * @param ch the typed character
+ * @param options the formatting options
+ * @returns the edits formatting the document
+ */
+export function getOnTypeFormattingEdits(
+  tree: Parser.Tree,
+  text: string,
+  position: LSP.Position,
+  ch: string,
+  options: FormattingOptions,
+): LSP.TextEdit[] {
+  const document = TextDocument.create('', 'modelica', 0, text);
+  const tokens = getTokens(tree);
+
+  if (ch === ';') {
+    if (!tree.rootNode.hasError()) {
+      return getFormattingEdits(
+        tree,
+        text,
+        options,
+        LSP.Range.create(position.line, 0, position.line, position.character),
+      );
+    }
+    return indentLine(document, tokens, position.line, options, false) ?? [];
+  }
+
+  if (ch !== '\n' || position.line === 0) {
+    return [];
+  }
+
+  const edits = indentLine(document, tokens, position.line - 1, options, true) ?? [];
+
+  const offset = document.offsetAt(position);
+  const index = tokens.findIndex((token) => token.endIndex > offset);
+  const count = index === -1 ? tokens.length : index;
+  const { blocks } = scan(tokens, count);
+  edits.push(...(indentLine(document, tokens, position.line, options, false) ?? []));
+
+  // Close the class whose header was just completed
+  const block = blocks.at(-1);
+  if (block?.className && block.headerEnd === count - 1 && !isTerminated(tokens, count, block)) {
+    const end = `${indent(block.level, options)}end ${block.className};`;
+    edits.push(
+      position.line + 1 < document.lineCount
+        ? LSP.TextEdit.insert(LSP.Position.create(position.line + 1, 0), `${end}\n`)
+        : LSP.TextEdit.insert(document.positionAt(text.length), `\n${end}`),
+    );
+  }
+
+  return edits;
+}
+
+/**
+ * Re-indents a line.
+ *
+ * @param document the document
+ * @param tokens the significant tokens of the document
+ * @param line the line
+ * @param options the formatting options
+ * @param keywordsOnly only re-indent lines starting with a section keyword,
+ *     `else` or `end`
+ * @returns the edit, `[]` if the line is indented already or `null` if the
+ *     line is skipped
+ */
+function indentLine(
+  document: TextDocument,
+  tokens: Parser.SyntaxNode[],
+  line: number,
+  options: FormattingOptions,
+  keywordsOnly: boolean,
+): LSP.TextEdit[] | null {
+  const lineText = document.getText(LSP.Range.create(line, 0, line + 1, 0)).replace(/\r?\n$/, '');
+  const whitespace = lineText.match(/^\s*/)![0];
+  const lineStart = document.offsetAt(LSP.Position.create(line, 0));
+  let index = tokens.findIndex((token) => token.startIndex >= lineStart + whitespace.length);
+  if (index !== -1 && tokens[index].startPosition.row !== line) {
+    index = -1;
+  }
+
+  const token = index === -1 ? undefined : tokens[index];
+  if (index !== -1 && tokens[index].startIndex !== lineStart + whitespace.length) {
+    // The line starts with a comment
+    return null;
+  }
+  if (
+    keywordsOnly &&
+    !(
+      token &&
+      (SECTION_KEYWORDS.has(token.type) ||
+        BRANCH_KEYWORDS.has(token.type) ||
+        token.type === 'initial' ||
+        token.type === 'end')
+    )
+  ) {
+    return null;
+  }
+
+  const count =
+    index === -1 ? tokens.filter((token) => token.startIndex < lineStart).length : index;
+  const indentation = indent(getLevel(tokens, count, token !== undefined), options);
+  if (indentation === whitespace) {
+    return [];
+  }
+
+  return [LSP.TextEdit.replace(LSP.Range.create(line, 0, line, whitespace.length), indentation)];
+}
+
+/**
+ * Returns the indentation level of a line.
+ *
+ * @param tokens the significant tokens of the document
+ * @param index the index of the first token of the line, or the number of
+ *     tokens before an empty line
+ * @param hasToken `false` if the line is empty
+ */
+function getLevel(tokens: Parser.SyntaxNode[], index: number, hasToken: boolean): number {
+  const { blocks, openBrackets, unitStartRow } = scan(tokens, index);
+  const token = hasToken ? tokens[index] : undefined;
+  const next = tokens[index + 1] as Parser.SyntaxNode | undefined;
+  const top = blocks.at(-1);
+  const classLevel =
+    [...blocks].reverse().find((block) => block.className !== undefined)?.level ?? 0;
+
+  if (token && unitStartRow === undefined) {
+    if (token.type === 'end') {
+      return next?.type === 'IDENT' || !top || top.className ? classLevel : top.level;
+    }
+    if (
+      SECTION_KEYWORDS.has(token.type) ||
+      (token.type === 'initial' && next && SECTION_KEYWORDS.has(next.type))
+    ) {
+      return classLevel;
+    }
+    if (BRANCH_KEYWORDS.has(token.type) && top && !top.className) {
+      return top.level;
+    }
+  }
+
+  const level = top ? top.level + 1 : 0;
+  if (unitStartRow === undefined) {
+    return level;
+  }
+
+  // Continuation of wrapped lines and unclosed brackets
+  const brackets =
+    token && CLOSING_BRACKETS.has(token.type) ? openBrackets.slice(0, -1) : openBrackets;
+  return level + new Set([...brackets, unitStartRow]).size;
+}
+
+/**
+ * Tracks the open classes, blocks and brackets at a token.
+ *
+ * @param tokens the significant tokens of the document
+ * @param count the number of tokens to scan
+ */
+function scan(tokens: Parser.SyntaxNode[], count: number): ScanResult {
+  const blocks: Block[] = [];
+  let openBrackets: number[] = [];
+  let unitStartRow: number | undefined;
+
+  for (let i = 0; i < count; i++) {
+    const token = tokens[i];
+    const next = tokens[i + 1] as Parser.SyntaxNode | undefined;
+    const top = blocks.at(-1);
+    const level = top ? top.level + 1 : 0;
+    const isUnitStart = unitStartRow === undefined;
+    unitStartRow ??= token.startPosition.row;
+
+    let isUnitEnd = token.type === ';' || SECTION_KEYWORDS.has(token.type);
+    if (token.type === 'IDENT' && isClassPrefixes(tokens, i - 1) && next?.type !== '=') {
+      // Header of a long class specifier
+      blocks.push({ level, className: token.text, headerEnd: i });
+      isUnitEnd = next?.type !== 'STRING';
+    } else if (token.type === 'STRING' && top?.headerEnd === i - 1) {
+      // Description string of a class
+      top.headerEnd = i;
+      isUnitEnd = true;
+    } else if (BLOCK_KEYWORDS.has(token.type) && isUnitStart) {
+      blocks.push({ level, isInHeader: true });
+    } else if ((token.type === 'then' || token.type === 'loop') && top?.isInHeader) {
+      top.isInHeader = false;
+      isUnitEnd = true;
+    } else if (BRANCH_KEYWORDS.has(token.type) && isUnitStart && top && !top.className) {
+      top.isInHeader = token.type !== 'else';
+      isUnitEnd = token.type === 'else';
+    } else if (token.type === 'end' && isUnitStart) {
+      if (next?.type === 'IDENT') {
+        while (blocks.length > 0 && !blocks.at(-1)!.className) {
+          blocks.pop();
+        }
+        blocks.pop();
+      } else if (next && BLOCK_KEYWORDS.has(next.type) && top && !top.className) {
+        blocks.pop();
+      }
+    } else if (OPENING_BRACKETS.has(token.type)) {
+      openBrackets.push(token.startPosition.row);
+    } else if (CLOSING_BRACKETS.has(token.type)) {
+      openBrackets.pop();
+    }
+
+    if (isUnitEnd) {
+      unitStartRow = undefined;
+      openBrackets = [];
+    }
+  }
+
+  return { blocks, openBrackets, unitStartRow };
+}
+
+/**
+ * Checks if a token ends the prefixes of a class, e.g. `model` or
+ * `model extends`.
+ */
+function isClassPrefixes(tokens: Parser.SyntaxNode[], index: number): boolean {
+  const token = tokens[index] as Parser.SyntaxNode | undefined;
+  if (token?.type === 'extends') {
+    return isClassPrefixes(tokens, index - 1);
+  }
+  return token?.parent?.type === 'class_prefixes';
+}
+
+/**
+ * Checks if a class is closed by an `end` with its name after the given
+ * token.
+ */
+function isTerminated(tokens: Parser.SyntaxNode[], start: number, block: Block): boolean {
+  for (let i = start; i + 1 < tokens.length; i++) {
+    if (tokens[i].type === 'end' && tokens[i + 1].text === block.className) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns all tokens of a tree except comments and missing tokens.
+ */
+function getTokens(tree: Parser.Tree): Parser.SyntaxNode[] {
+  const tokens: Parser.SyntaxNode[] = [];
+  TreeSitterUtil.forEach(tree.rootNode, (node) => {
+    if (node.childCount === 0 && !isComment(node) && !node.isMissing()) {
+      tokens.push(node);
+    }
+    return node.childCount > 0;
+  });
+  return tokens;
+}
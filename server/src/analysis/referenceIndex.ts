@@ -0,0 +1,390 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { logger } from '../util/logger';
+import { DocumentChangeEvent, ModelicaDocument, ModelicaProject } from '../project';
+import {
+  ReferenceKind,
+  ResolvedReference,
+  UnresolvedAbsoluteReference,
+  UnresolvedReference,
+  UnresolvedRelativeReference,
+} from './reference';
+import { DocumentIndex } from './documentIndex';
+import resolveReference, {
+  resolveCallee,
+  resolveElement,
+  resolveModifiedClass,
+  variableRefToClassRef,
+} from './resolveReference';
+
+/**
+ * An occurrence of a symbol in a document.
+ */
+export interface IndexedReference {
+  /**
+   * The document containing the occurrence.
+   */
+  document: ModelicaDocument;
+  /**
+   * The `IDENT` node naming the symbol.
+   */
+  node: Parser.SyntaxNode;
+  /**
+   * The key of the declaration the occurrence resolves to, see
+   * {@link getDeclarationKey}.
+   */
+  declarationKey: string;
+}
+
+/**
+ * The references of a document.
+ */
+interface DocumentReferences {
+  references: IndexedReference[];
+  /**
+   * The URIs of the documents declaring the referenced symbols.
+   */
+  declaringDocuments: Set<string>;
+  /**
+   * The names of references that couldn't be resolved.
+   */
+  unresolvedNames: Set<string>;
+}
+
+/**
+ * Reverse index from declarations to all references of them.
+ *
+ * A change of a document also invalidates the documents referencing its
+ * declarations, and the documents with unresolved references to names it
+ * declares, since their references may resolve differently now.
+ */
+export class ReferenceIndex extends DocumentIndex<DocumentReferences> {
+  public constructor(project: ModelicaProject) {
+    super(project, 'references');
+  }
+
+  /**
+   * Finds all references to a declaration.
+   *
+   * @param declaration the resolved declaration
+   * @returns all occurrences resolving to the declaration, excluding the
+   *     declaration itself
+   */
+  public getReferences(declaration: ResolvedReference): IndexedReference[] {
+    const declarationKey = getDeclarationKey(declaration);
+    return this.entries()
+      .flatMap(({ references }) => references)
+      .filter((reference) => reference.declarationKey === declarationKey);
+  }
+
+  protected indexDocument(document: ModelicaDocument): DocumentReferences {
+    return collectReferences(document);
+  }
+
+  protected onDidChangeDocument(event: DocumentChangeEvent): void {
+    super.onDidChangeDocument(event);
+
+    const { document, kind } = event;
+    const declaredNames = kind === 'removed' ? new Set<string>() : getDeclaredNames(document);
+    this.invalidate(
+      ({ declaringDocuments, unresolvedNames }) =>
+        declaringDocuments.has(document.uri) ||
+        [...declaredNames].some((name) => unresolvedNames.has(name)),
+    );
+  }
+}
+
+/**
+ * Returns a key identifying a declaration. The key is built from the document
+ * and the names of the enclosing classes, so it stays valid when the document
+ * is edited without renaming the declaration.
+ *
+ * @param declaration the resolved declaration
+ * @returns the declaration key
+ */
+export function getDeclarationKey(declaration: ResolvedReference): string {
+  const names: string[] = [];
+  for (let node: Parser.SyntaxNode | null = declaration.node; node !== null; node = node.parent) {
+    if (node.type === 'class_definition') {
+      names.unshift(TreeSitterUtil.getDeclaredIdentifiers(node)[0]);
+    }
+  }
+
+  if (declaration.kind === 'variable') {
+    names.push(declaration.symbols.at(-1)!);
+  }
+
+  return `${declaration.document.uri}#${names.join('.')}`;
+}
+
+/**
+ * Resolves all symbol references in a document.
+ */
+function collectReferences(document: ModelicaDocument): DocumentReferences {
+  const references: IndexedReference[] = [];
+  const declaringDocuments = new Set<string>();
+  const unresolvedNames = new Set<string>();
+
+  forEachReference(document, (node, reference) => {
+    try {
+      const resolved = resolveOccurrence(document.project, reference);
+      if (resolved) {
+        references.push({ document, node, declarationKey: getDeclarationKey(resolved) });
+        declaringDocuments.add(resolved.document.uri);
+      } else {
+        unresolvedNames.add(node.text);
+      }
+    } catch (e: unknown) {
+      logger.debug(`Failed to resolve ${reference}: `, e);
+      unresolvedNames.add(node.text);
+    }
+  });
+
+  return { references, declaringDocuments, unresolvedNames };
+}
+
+/**
+ * Returns the names of all classes and components declared in a document.
+ */
+export function getDeclaredNames(document: ModelicaDocument): Set<string> {
+  const names = new Set<string>();
+  TreeSitterUtil.forEach(document.tree.rootNode, (node) => {
+    if (node.type === 'class_definition' || node.type === 'component_clause') {
+      try {
+        TreeSitterUtil.getDeclaredIdentifiers(node).forEach((name) => names.add(name));
+      } catch (e: unknown) {
+        logger.debug(`Failed to get declared names of ${node.type}: `, e);
+      }
+    }
+    return true;
+  });
+
+  return names;
+}
+
+/**
+ * Calls `addReference` for every symbol reference in a document, i.e. for
+ * every identifier in type specifiers, component references, import and
+ * within clauses, modifications and named arguments, and for the `end Name;`
+ * of classes.
+ *
+ * The names of modifications and named arguments can't be looked up in scope,
+ * they are elements of the modified class or inputs of the called function.
+ * They are passed as resolved references, see {@link resolveOccurrence}.
+ *
+ * @param document the document
+ * @param addReference called with the `IDENT` node and the reference it
+ *     stands for
+ */
+export function forEachReference(
+  document: ModelicaDocument,
+  addReference: (
+    node: Parser.SyntaxNode,
+    reference: UnresolvedReference | ResolvedReference,
+  ) => void,
+): void {
+  TreeSitterUtil.forEach(document.tree.rootNode, (node) => {
+    switch (node.type) {
+      case 'type_specifier': {
+        const typeSpecifier = TreeSitterUtil.getTypeSpecifier(node);
+        addNameReferences(document, typeSpecifier, 'class', addReference);
+        return false;
+      }
+      case 'component_reference': {
+        const componentReference = TreeSitterUtil.getComponentReference(node);
+        addNameReferences(
+          document,
+          {
+            isGlobal: componentReference.isGlobal,
+            symbols: componentReference.components,
+            symbolNodes: componentReference.componentNodes,
+          },
+          'variable',
+          addReference,
+        );
+        // Array subscripts can contain references as well
+        return true;
+      }
+      case 'import_clause':
+      case 'within_clause': {
+        // imports and within clauses are always absolute
+        const name = node.childForFieldName('name');
+        if (name) {
+          const typeSpecifier = TreeSitterUtil.getTypeSpecifier(name);
+          addNameReferences(document, { ...typeSpecifier, isGlobal: true }, 'class', addReference);
+        }
+        return false;
+      }
+      case 'element_modification': {
+        // `k` in `TestModel(k = 10)` is an element of the modified class
+        const name = node.childForFieldName('name');
+        const classModification = node.parent?.parent;
+        if (name && classModification?.type === 'class_modification') {
+          addElementReferences(
+            TreeSitterUtil.getTypeSpecifier(name).symbolNodes,
+            () => resolveModifiedClass(document, classModification),
+            addReference,
+          );
+        }
+        return true;
+      }
+      case 'named_argument': {
+        // `tau` in `TestClass(x, tau = k)` is an input of the called function
+        const identifier = node.childForFieldName('identifier');
+        const functionReference = TreeSitterUtil.findParent(
+          node,
+          (n) => n.type === 'function_call_args',
+        )?.parent?.childForFieldName('functionReference');
+        if (identifier && functionReference?.type === 'component_reference') {
+          addElementReferences(
+            [identifier],
+            () => resolveCallee(document, functionReference.text, functionReference),
+            addReference,
+          );
+        }
+        return true;
+      }
+      case 'class_definition': {
+        // `end Name;` refers to the class itself
+        const endIdentifier = node
+          .childForFieldName('classSpecifier')
+          ?.childForFieldName('endIdentifier');
+        if (endIdentifier) {
+          addReference(
+            endIdentifier,
+            new UnresolvedRelativeReference(document, node, [endIdentifier.text], 'class'),
+          );
+        }
+        return true;
+      }
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Adds a reference for every prefix of a (possibly qualified) name, e.g.
+ * `Modelica`, `Modelica.Blocks` and `Modelica.Blocks.PID` for the type
+ * `Modelica.Blocks.PID`.
+ */
+function addNameReferences(
+  document: ModelicaDocument,
+  name: TreeSitterUtil.TypeSpecifier,
+  kind: ReferenceKind,
+  addReference: (node: Parser.SyntaxNode, unresolved: UnresolvedReference) => void,
+): void {
+  for (let i = 0; i < name.symbolNodes.length; i++) {
+    const symbols = name.symbols.slice(0, i + 1);
+    const unresolved = name.isGlobal
+      ? new UnresolvedAbsoluteReference(symbols, kind)
+      : new UnresolvedRelativeReference(document, name.symbolNodes[0], symbols, kind);
+    addReference(name.symbolNodes[i], unresolved);
+  }
+}
+
+/**
+ * Adds a reference for every part of a (possibly qualified) element name, e.g.
+ * `b` and `b.c` for the modification `b.c = 2`.
+ *
+ * @param nameNodes the `IDENT` nodes of the name
+ * @param resolveClass resolves the class containing the first element
+ * @param addReference called for every resolved part
+ */
+function addElementReferences(
+  nameNodes: Parser.SyntaxNode[],
+  resolveClass: () => ResolvedReference | null,
+  addReference: (node: Parser.SyntaxNode, reference: ResolvedReference) => void,
+): void {
+  try {
+    let element = resolveClass();
+    for (const node of nameNodes) {
+      const classRef = element?.kind === 'variable' ? variableRefToClassRef(element) : element;
+      element = classRef && resolveElement(classRef, node.text);
+      if (!element) {
+        return;
+      }
+      addReference(node, element);
+    }
+  } catch (e: unknown) {
+    logger.debug(`Failed to resolve ${nameNodes.map((node) => node.text).join('.')}: `, e);
+  }
+}
+
+/**
+ * Resolves a reference passed by {@link forEachReference} to its declaration.
+ *
+ * @param project the project
+ * @param reference an unresolved reference, or an already resolved one
+ * @returns the declaration, or `null` if not found
+ */
+export function resolveOccurrence(
+  project: ModelicaProject,
+  reference: UnresolvedReference | ResolvedReference,
+): ResolvedReference | null {
+  return reference instanceof ResolvedReference ? reference : resolveReference(project, reference);
+}
+
+/**
+ * Returns the `IDENT` node naming a declaration.
+ *
+ * @param declaration the resolved declaration
+ * @returns the identifier node, or `null` if not found
+ */
+export function getDeclarationIdentifier(declaration: ResolvedReference): Parser.SyntaxNode | null {
+  if (declaration.kind === 'class') {
+    return (
+      declaration.node.childForFieldName('classSpecifier')?.childForFieldName('identifier') ?? null
+    );
+  }
+
+  return (
+    TreeSitterUtil.getComponentDeclaration(declaration.node, declaration.symbols.at(-1)!)
+      ?.childForFieldName('declaration')
+      ?.childForFieldName('identifier') ?? null
+  );
+}
+
+/**
+ * Converts an indexed reference to a location.
+ */
+export function toLocation(reference: Pick<IndexedReference, 'document' | 'node'>): LSP.Location {
+  return LSP.Location.create(reference.document.uri, TreeSitterUtil.range(reference.node));
+}
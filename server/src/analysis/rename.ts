@@ -0,0 +1,344 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as url from 'node:url';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { ModelicaDocument } from '../project';
+import { ResolvedReference } from './reference';
+import { getDeclarationIdentifier, ReferenceIndex } from './referenceIndex';
+
+/**
+ * Thrown when a symbol can't be renamed. The message is shown to the user.
+ */
+export class RenameError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = 'RenameError';
+  }
+}
+
+/**
+ * Checks if the symbol at the given position can be renamed.
+ *
+ * @param document the document containing the position
+ * @param position the cursor position
+ * @param declaration the resolved declaration of the symbol at the position
+ * @returns the range of the identifier to rename, or `null` if there is no
+ *     renameable symbol at the position
+ * @throws RenameError if the symbol is declared in a read-only library
+ */
+export function prepareRename(
+  document: ModelicaDocument,
+  position: LSP.Position,
+  declaration: ResolvedReference | null,
+): LSP.PrepareRenameResult | null {
+  const identifier = findIdentifierAt(document, position);
+  if (!identifier) {
+    return null;
+  }
+
+  if (findImportAlias(identifier)) {
+    return { range: TreeSitterUtil.range(identifier), placeholder: identifier.text };
+  }
+
+  if (!declaration || !getDeclarationIdentifier(declaration)) {
+    return null;
+  }
+
+  checkWritable(declaration.document, declaration.symbols.at(-1)!);
+  return { range: TreeSitterUtil.range(identifier), placeholder: identifier.text };
+}
+
+/**
+ * Renames the symbol at the given position.
+ *
+ * Renaming a class or component updates the declaration, the `end Name;` of
+ * classes and every reference in the project, including `within` clauses.
+ * Classes stored in their own `Name.mo` or `Name/package.mo` are moved along
+ * and their entry in `package.order` is updated. Renaming an import alias only
+ * updates the usages within the scope of the import.
+ *
+ * @param document the document containing the position
+ * @param position the cursor position
+ * @param newName the new name of the symbol
+ * @param declaration the resolved declaration of the symbol at the position
+ * @param index the reference index of the project
+ * @returns the workspace edit, or `null` if there is no renameable symbol
+ * @throws RenameError if the new name is invalid or the rename would modify a
+ *     read-only library
+ */
+export function getRenameEdits(
+  document: ModelicaDocument,
+  position: LSP.Position,
+  newName: string,
+  declaration: ResolvedReference | null,
+  index: ReferenceIndex,
+): LSP.WorkspaceEdit | null {
+  if (!/^([A-Za-z_]\w*|'([^'\\]|\\.)+')$/.test(newName)) {
+    throw new RenameError(`'${newName}' is not a valid Modelica identifier.`);
+  }
+
+  const identifier = findIdentifierAt(document, position);
+  if (!identifier) {
+    return null;
+  }
+
+  const importClause = findImportAlias(identifier);
+  if (importClause) {
+    checkWritable(document, identifier.text);
+    const edits = getImportAliasUsages(importClause).map((node) =>
+      LSP.TextEdit.replace(TreeSitterUtil.range(node), newName),
+    );
+    return {
+      documentChanges: [LSP.TextDocumentEdit.create({ uri: document.uri, version: null }, edits)],
+    };
+  }
+
+  const declarationIdentifier = declaration && getDeclarationIdentifier(declaration);
+  if (!declaration || !declarationIdentifier) {
+    return null;
+  }
+
+  const oldName = declarationIdentifier.text;
+  const occurrences = [
+    { document: declaration.document, node: declarationIdentifier },
+    ...index
+      .getReferences(declaration)
+      // `C.x` must keep using the alias in `import C = A.B;` when `B` is renamed
+      .filter(({ node }) => node.text === oldName && !findImportAlias(node)),
+  ];
+
+  const editsByDocument = new Map<string, [ModelicaDocument, LSP.TextEdit[]]>();
+  for (const occurrence of occurrences) {
+    checkWritable(occurrence.document, oldName);
+
+    const range = TreeSitterUtil.range(occurrence.node);
+    const entry = editsByDocument.get(occurrence.document.uri) ?? [occurrence.document, []];
+    if (!entry[1].some((edit) => LSP.Range.is(edit.range) && rangeEquals(edit.range, range))) {
+      entry[1].push(LSP.TextEdit.replace(range, newName));
+    }
+    editsByDocument.set(occurrence.document.uri, entry);
+  }
+
+  const documentChanges: LSP.WorkspaceEdit['documentChanges'] = [...editsByDocument.values()].map(
+    ([{ uri }, edits]) => LSP.TextDocumentEdit.create({ uri, version: null }, edits),
+  );
+
+  if (declaration.kind === 'class') {
+    documentChanges.push(...getFileOperations(declaration, oldName, newName));
+  }
+
+  return { documentChanges };
+}
+
+/**
+ * Creates the operations moving a class stored in its own file or directory,
+ * i.e. `Name.mo` or `Name/package.mo`, and updating `package.order`.
+ */
+function getFileOperations(
+  declaration: ResolvedReference,
+  oldName: string,
+  newName: string,
+): (LSP.TextDocumentEdit | LSP.RenameFile)[] {
+  if (declaration.node.parent?.type !== 'stored_definition') {
+    return [];
+  }
+
+  const documentPath = declaration.document.path;
+  let oldPath: string;
+  if (path.basename(documentPath) === `${oldName}.mo`) {
+    oldPath = documentPath;
+  } else if (
+    path.basename(documentPath) === 'package.mo' &&
+    path.basename(path.dirname(documentPath)) === oldName
+  ) {
+    oldPath = path.dirname(documentPath);
+  } else {
+    return [];
+  }
+
+  const newPath = path.join(
+    path.dirname(oldPath),
+    oldPath === documentPath ? `${newName}.mo` : newName,
+  );
+  if (fs.existsSync(newPath)) {
+    throw new RenameError(`Can't rename '${oldName}': '${newPath}' already exists.`);
+  }
+
+  const operations: (LSP.TextDocumentEdit | LSP.RenameFile)[] = [];
+
+  const packageOrderPath = path.join(path.dirname(oldPath), 'package.order');
+  if (fs.existsSync(packageOrderPath)) {
+    const lines = fs.readFileSync(packageOrderPath, 'utf-8').split(/\r?\n/);
+    const line = lines.findIndex((entry) => entry.trim() === oldName);
+    if (line !== -1) {
+      const character = lines[line].indexOf(oldName);
+      operations.push(
+        LSP.TextDocumentEdit.create(
+          { uri: url.pathToFileURL(packageOrderPath).href, version: null },
+          [
+            LSP.TextEdit.replace(
+              LSP.Range.create(line, character, line, character + oldName.length),
+              newName,
+            ),
+          ],
+        ),
+      );
+    }
+  }
+
+  operations.push(
+    LSP.RenameFile.create(url.pathToFileURL(oldPath).href, url.pathToFileURL(newPath).href),
+  );
+  return operations;
+}
+
+/**
+ * Throws if a document belongs to a library that is not part of the workspace.
+ */
+function checkWritable(document: ModelicaDocument, name: string): void {
+  if (document.library?.isWorkspace === false) {
+    throw new RenameError(
+      `Can't rename '${name}': it would modify the read-only library '${document.library.name}'.`,
+    );
+  }
+}
+
+/**
+ * Returns the identifier at the given position. The position may also be just
+ * after the identifier.
+ */
+function findIdentifierAt(
+  document: ModelicaDocument,
+  position: LSP.Position,
+): Parser.SyntaxNode | null {
+  const point = TreeSitterUtil.positionToPoint(position);
+  let node = document.tree.rootNode.descendantForPosition(point);
+  if (node.type !== 'IDENT' && point.column > 0) {
+    node = document.tree.rootNode.descendantForPosition({ ...point, column: point.column - 1 });
+  }
+
+  return node.type === 'IDENT' ? node : null;
+}
+
+/**
+ * Finds the import clause declaring the given identifier as an alias, e.g.
+ * `import C = A.B;` for the `C` of `C.x`, or for the alias itself.
+ *
+ * @param identifier an `IDENT` node
+ * @returns the import clause, or `null` if the identifier is not an alias
+ */
+function findImportAlias(identifier: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  const parent = identifier.parent;
+  if (parent?.type === 'import_clause') {
+    return parent.childForFieldName('alias')?.equals(identifier) ? parent : null;
+  }
+
+  // Only the first part of an unqualified name can refer to an alias
+  const isFirstOfName =
+    parent?.type === 'name' &&
+    parent.childForFieldName('qualifier') == null &&
+    !['import_clause', 'within_clause'].includes(getOutermostName(parent).parent?.type ?? '') &&
+    getOutermostName(parent).parent?.childForFieldName('global') == null;
+  const isFirstOfComponentReference =
+    parent?.type === 'component_reference' &&
+    parent.childForFieldName('qualifier') == null &&
+    parent.childForFieldName('global') == null;
+  if (!isFirstOfName && !isFirstOfComponentReference) {
+    return null;
+  }
+
+  for (let node = parent.parent; node !== null; node = node.parent) {
+    const importClause = [...node.children, ...TreeSitterUtil.getClassElements(node)].find(
+      (child) =>
+        child.type === 'import_clause' &&
+        child.childForFieldName('alias')?.text === identifier.text,
+    );
+    if (importClause) {
+      return importClause;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns the outermost `name` node of a qualified name.
+ */
+function getOutermostName(name: Parser.SyntaxNode): Parser.SyntaxNode {
+  while (name.parent?.type === 'name') {
+    name = name.parent;
+  }
+  return name;
+}
+
+/**
+ * Returns the alias of an import clause and all usages of it.
+ */
+function getImportAliasUsages(importClause: Parser.SyntaxNode): Parser.SyntaxNode[] {
+  const alias = importClause.childForFieldName('alias')!;
+  const scope =
+    TreeSitterUtil.findParent(importClause, (node) => node.type === 'class_definition') ??
+    importClause.tree.rootNode;
+
+  const usages: Parser.SyntaxNode[] = [alias];
+  TreeSitterUtil.forEach(scope, (node) => {
+    if (
+      node.type === 'IDENT' &&
+      node.text === alias.text &&
+      !node.equals(alias) &&
+      findImportAlias(node)?.equals(importClause)
+    ) {
+      usages.push(node);
+    }
+    return true;
+  });
+
+  return usages;
+}
+
+function rangeEquals(a: LSP.Range, b: LSP.Range): boolean {
+  return (
+    a.start.line === b.start.line &&
+    a.start.character === b.start.character &&
+    a.end.line === b.end.line &&
+    a.end.character === b.end.character
+  );
+}
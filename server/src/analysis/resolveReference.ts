@@ -48,25 +48,21 @@ import {
 import { logger } from '../util/logger';
 import { ModelicaProject, ModelicaLibrary, ModelicaDocument } from '../project';
 
-export type Resolution = 'declaration' | 'definition';
-
 /**
- * Locates the declaration or definition of a symbol reference.
+ * Locates the declaration of a symbol reference.
+ *
+ * This is the declaration in scope at the reference. Use `resolveDefinition`
+ * of the instance hierarchy to find the `inner` component defining an `outer`
+ * component.
  *
  * @param project the project
  * @param reference a reference
- * @param resolution the kind of symbol to search for
  */
 export default function resolveReference(
   project: ModelicaProject,
   reference: UnresolvedReference,
-  resolution: Resolution,
 ): ResolvedReference | null {
-  logger.debug(`Resolving ${resolution} ${reference}`);
-
-  if (resolution === 'definition') {
-    throw new Error('Resolving definitions not yet supported!');
-  }
+  logger.debug(`Resolving ${reference}`);
 
   if (reference instanceof UnresolvedAbsoluteReference) {
     return resolveAbsoluteReference(project, reference);
@@ -82,6 +78,93 @@ export default function resolveReference(
   return null;
 }
 
+/**
+ * Checks if a resolved variable is declared with the `outer` prefix.
+ */
+export function isOuterDeclaration(declaration: ResolvedReference): boolean {
+  return getNamedElement(declaration.node)?.childForFieldName('outer') != null;
+}
+
+/**
+ * Checks if a resolved variable is declared with the `inner` prefix.
+ */
+export function isInnerDeclaration(declaration: ResolvedReference): boolean {
+  return getNamedElement(declaration.node)?.childForFieldName('inner') != null;
+}
+
+function getNamedElement(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  if (node.type === 'named_element') {
+    return node;
+  }
+  return node.parent?.type === 'named_element' ? node.parent : null;
+}
+
+/**
+ * Finds the `inner` component matching an `outer` component.
+ *
+ * The enclosing classes are searched from the innermost to the outermost,
+ * first in the document of the `outer` component, then the classes of its
+ * `within` clause. This only finds the `inner` component if the class of the
+ * `outer` component is instantiated in one of its enclosing classes. Use
+ * `resolveDefinition` of the instance hierarchy to search the classes
+ * instantiating it instead.
+ *
+ * @param project the project
+ * @param outer the resolved `outer` component
+ * @returns the `inner` component, or `null` if there is none
+ */
+export function resolveInnerDeclaration(
+  project: ModelicaProject,
+  outer: ResolvedReference,
+): ResolvedReference | null {
+  const name = outer.symbols.at(-1)!;
+  const document = outer.document;
+
+  const enclosingClasses: [ModelicaDocument, Parser.SyntaxNode, string[]][] = [];
+  const classNodes: Parser.SyntaxNode[] = [];
+  for (let node = outer.node.parent; node !== null; node = node.parent) {
+    if (node.type === 'class_definition') {
+      classNodes.unshift(node);
+    }
+  }
+  // The class declaring the `outer` component itself is skipped
+  for (let i = classNodes.length - 2; i >= 0; i--) {
+    const classPath = classNodes
+      .slice(0, i + 1)
+      .map((classNode) => TreeSitterUtil.getDeclaredIdentifiers(classNode)[0]);
+    enclosingClasses.push([document, classNodes[i], [...document.within, ...classPath]]);
+  }
+  for (let i = document.within.length; i > 0; i--) {
+    const classPath = document.within.slice(0, i);
+    const enclosingClass = resolveReference(
+      project,
+      new UnresolvedAbsoluteReference(classPath, 'class'),
+    );
+    if (enclosingClass) {
+      enclosingClasses.push([enclosingClass.document, enclosingClass.node, classPath]);
+    }
+  }
+
+  for (const [classDocument, classNode, classPath] of enclosingClasses) {
+    const declaration = findDeclarationInClass(classDocument, classNode, [name], 'variable');
+    if (declaration?.kind === 'variable' && isInnerDeclaration(declaration)) {
+      logger.debug(`Found inner declaration of ${name} in ${classPath.join('.')}`);
+      const inner = new ResolvedReference(
+        declaration.document,
+        declaration.node,
+        [...classPath, name],
+        'variable',
+      );
+
+      // `inner outer` components are defined further up
+      return isOuterDeclaration(inner) ? (resolveInnerDeclaration(project, inner) ?? inner) : inner;
+    }
+  }
+
+  logger.debug(`Couldn't find inner declaration of ${outer}`);
+  return null;
+}
+
 /**
  * Converts a relative reference to an absolute reference.
  *
@@ -216,9 +299,12 @@ function* findReferenceInDocument(
     return;
   }
 
-  const importClauses = reference.node.parent?.children.filter(
-    (child) => child.type === 'import_clause',
-  );
+  // Imports are visible in the surrounding element list and, from anywhere
+  // inside a class, in the element lists of that class.
+  const importClauses = [
+    ...(reference.node.parent?.children ?? []),
+    ...TreeSitterUtil.getClassElements(reference.node),
+  ].filter((child) => child.type === 'import_clause');
   if (importClauses && importClauses.length > 0) {
     for (const importClause of importClauses) {
       const { importCandidate, wildcard } = resolveImportClause(reference.symbols, importClause);
@@ -324,8 +410,7 @@ function findDeclarationInClass(
         })`,
       );
 
-      // TODO: support "definition" resolution
-      const superclass = resolveReference(document.project, unresolvedSuperclass, 'declaration');
+      const superclass = resolveReference(document.project, unresolvedSuperclass);
       if (!superclass) {
         logger.warn(`Could not find superclass ${unresolvedSuperclass}`);
         continue;
@@ -503,11 +588,14 @@ function resolveNext(
     return new ResolvedReference(document, packageClass, [nextSymbol], 'class');
   }
 
+  // Only packages stored as `package.mo` have their classes in separate files
+  const isPackageDirectory =
+    path.basename(parentReference.document.path) === 'package.mo' &&
+    parentReference.node.parent?.type === 'stored_definition';
   const dirName = path.dirname(parentReference.document.path);
-  const potentialPaths = [
-    path.join(dirName, `${nextSymbol}.mo`),
-    path.join(dirName, `${nextSymbol}/package.mo`),
-  ];
+  const potentialPaths = isPackageDirectory
+    ? [path.join(dirName, `${nextSymbol}.mo`), path.join(dirName, `${nextSymbol}/package.mo`)]
+    : [];
 
   for (const documentPath of potentialPaths) {
     if (!fs.existsSync(documentPath)) {
@@ -590,12 +678,201 @@ function getPackageClassFromFilePath(
  * @returns a reference to the class definition, or `null` if the type is not a
  *     class (e.g. a builtin like `Real`)
  */
-function variableRefToClassRef(varRef: ResolvedReference): ResolvedReference | null {
+export function variableRefToClassRef(varRef: ResolvedReference): ResolvedReference | null {
   const type = TreeSitterUtil.getTypeSpecifier(varRef.node);
 
   const typeRef = type.isGlobal
     ? new UnresolvedAbsoluteReference(type.symbols, 'class')
     : new UnresolvedRelativeReference(varRef.document, varRef.node, type.symbols, 'class');
 
-  return resolveReference(varRef.document.project, typeRef, 'declaration');
+  return resolveReference(varRef.document.project, typeRef);
+}
+
+/**
+ * Finds the class of a component, or the class itself for class references.
+ * Short class specifiers like `type Voltage = Real(unit = "V")` are followed
+ * to their base class unless it is a builtin type.
+ *
+ * @param reference a resolved class or variable
+ * @returns a reference to the class definition, or `null` if the type is a
+ *     builtin like `Real`
+ */
+export function resolveTypeDefinition(reference: ResolvedReference): ResolvedReference | null {
+  let type = reference.kind === 'variable' ? variableRefToClassRef(reference) : reference;
+
+  const visited = new Set<string>();
+  while (type) {
+    visited.add(`${type.document.uri}:${type.node.startIndex}`);
+
+    const classSpecifier = type.node.childForFieldName('classSpecifier');
+    if (classSpecifier?.type !== 'short_class_specifier') {
+      break;
+    }
+
+    const base = resolveSuperclass(type.document, classSpecifier);
+    if (!base || visited.has(`${base.document.uri}:${base.node.startIndex}`)) {
+      break;
+    }
+    type = base;
+  }
+
+  return type;
+}
+
+/**
+ * Returns the absolute path of a class, e.g. `['Modelica', 'Blocks', 'PID']`.
+ *
+ * @param document the document containing the class
+ * @param classNode a `class_definition`
+ */
+export function getClassSymbols(
+  document: ModelicaDocument,
+  classNode: Parser.SyntaxNode,
+): string[] {
+  const symbols: string[] = [];
+  for (let node: Parser.SyntaxNode | null = classNode; node !== null; node = node.parent) {
+    if (node.type === 'class_definition') {
+      symbols.unshift(TreeSitterUtil.getDeclaredIdentifiers(node)[0]);
+    }
+  }
+
+  return [...document.within, ...symbols];
+}
+
+/**
+ * Finds an element of a class by name, including inherited elements. Short
+ * class specifiers are followed to their base class.
+ *
+ * @param classRef a resolved class
+ * @param name the name of the element
+ * @returns a reference to the element, or `null` if the class has no such
+ *     element
+ */
+export function resolveElement(
+  classRef: ResolvedReference,
+  name: string,
+): ResolvedReference | null {
+  const type = resolveTypeDefinition(classRef);
+  const element = type && findDeclarationInClass(type.document, type.node, [name], undefined);
+  if (!element) {
+    return null;
+  }
+
+  return new ResolvedReference(
+    element.document,
+    element.node,
+    [...classRef.symbols, name],
+    element.kind,
+  );
+}
+
+/**
+ * Resolves the superclass referenced by an `extends_clause` or a short class
+ * specifier.
+ *
+ * @param document the document containing the node
+ * @param node an `extends_clause` or `short_class_specifier`
+ * @returns a reference to the superclass, or `null` if not found
+ */
+export function resolveSuperclass(
+  document: ModelicaDocument,
+  node: Parser.SyntaxNode,
+): ResolvedReference | null {
+  const superclassType = TreeSitterUtil.getTypeSpecifier(node);
+  const unresolvedSuperclass = superclassType.isGlobal
+    ? new UnresolvedAbsoluteReference(superclassType.symbols, 'class')
+    : new UnresolvedRelativeReference(document, node, superclassType.symbols, 'class');
+
+  const superclass = resolveReference(document.project, unresolvedSuperclass);
+  if (!superclass) {
+    logger.debug(`Could not find superclass ${unresolvedSuperclass}`);
+  }
+
+  return superclass;
+}
+
+/**
+ * Resolves the function or record called by a function application.
+ *
+ * @param document the document containing the call
+ * @param name the name of the callee, e.g. `Functions.norm` or `.Modelica.Math.sin`
+ * @param scope a node in which the name is in scope
+ * @returns the called class, or `null` if not found, e.g. for builtins
+ */
+export function resolveCallee(
+  document: ModelicaDocument,
+  name: string,
+  scope: Parser.SyntaxNode,
+): ResolvedReference | null {
+  const symbols = name
+    .split('.')
+    .map((symbol) => symbol.trim())
+    .filter((symbol) => symbol.length > 0);
+  if (symbols.length === 0) {
+    return null;
+  }
+
+  const unresolved = name.trimStart().startsWith('.')
+    ? new UnresolvedAbsoluteReference(symbols, 'class')
+    : new UnresolvedRelativeReference(document, scope, symbols, 'class');
+
+  try {
+    return resolveReference(document.project, unresolved);
+  } catch (e: unknown) {
+    logger.debug(`Failed to resolve ${unresolved}: `, e);
+    return null;
+  }
+}
+
+/**
+ * Resolves the class modified by a class modification, e.g. `Pipe` for
+ * `Pipe pipe(redeclare package Medium = Water)`.
+ *
+ * @param document the document containing the modification
+ * @param classModification a `class_modification`
+ * @returns the modified class, or `null` if not found
+ */
+export function resolveModifiedClass(
+  document: ModelicaDocument,
+  classModification: Parser.SyntaxNode,
+): ResolvedReference | null {
+  const parent = classModification.parent;
+  switch (parent?.type) {
+    case 'extends_clause':
+    case 'short_class_specifier':
+      return resolveSuperclass(document, parent);
+    case 'modification': {
+      const owner = parent.parent;
+      if (owner?.type === 'declaration') {
+        // Modification of a component: `Pipe pipe(...)`
+        const componentClause = TreeSitterUtil.findParent(
+          owner,
+          (n) => n.type === 'component_clause',
+        );
+        const name = owner.childForFieldName('identifier')?.text;
+        if (!componentClause || !name) {
+          return null;
+        }
+        return variableRefToClassRef(
+          new ResolvedReference(document, componentClause, [name], 'variable'),
+        );
+      }
+
+      if (owner?.type === 'element_modification') {
+        // Nested modification: `Pipe pipe(flowModel(...))`
+        const outerModification = owner.parent?.parent ?? null;
+        const outerClass = outerModification && resolveModifiedClass(document, outerModification);
+        const names = TreeSitterUtil.getTypeSpecifier(owner.childForFieldName('name')!).symbols;
+        let element = outerClass;
+        for (const name of names) {
+          element = element && resolveElement(element, name);
+        }
+        return element?.kind === 'variable' ? variableRefToClassRef(element) : element;
+      }
+
+      return null;
+    }
+    default:
+      return null;
+  }
 }
@@ -0,0 +1,95 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+
+/**
+ * Named nodes that only wrap other nodes or group them without meaning to the
+ * user, e.g. the list of equations of an equation section.
+ */
+const SKIPPED_NODE_TYPES = new Set([
+  'primary_expression',
+  'simple_expression',
+  'component_list',
+  'equation_list',
+  'statement_list',
+  'function_arguments',
+  'argument_list',
+  'stored_definition',
+  'long_class_specifier',
+]);
+
+/**
+ * Computes the selection ranges at the given positions. Each range is
+ * contained in its parent, e.g. identifier → component reference →
+ * expression → equation → section → class.
+ *
+ * @param tree the syntax tree of the document
+ * @param positions the cursor positions
+ * @returns one selection range per position
+ */
+export function getSelectionRanges(
+  tree: Parser.Tree,
+  positions: LSP.Position[],
+): LSP.SelectionRange[] {
+  return positions.map((position) => {
+    const start = tree.rootNode.namedDescendantForPosition(
+      TreeSitterUtil.positionToPoint(position),
+    );
+
+    const nodes = [start];
+    for (let node: Parser.SyntaxNode | null = start; node !== null;) {
+      const previous: Parser.SyntaxNode = node;
+      node = TreeSitterUtil.findParent(
+        previous,
+        (parent) =>
+          parent.isNamed() &&
+          !SKIPPED_NODE_TYPES.has(parent.type) &&
+          (parent.startIndex !== previous.startIndex || parent.endIndex !== previous.endIndex),
+      );
+      if (node) {
+        nodes.push(node);
+      }
+    }
+
+    return nodes.reduceRight<LSP.SelectionRange | undefined>(
+      (parent, node) => LSP.SelectionRange.create(TreeSitterUtil.range(node), parent),
+      undefined,
+    )!;
+  });
+}
@@ -0,0 +1,223 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { logger } from '../util/logger';
+import { ModelicaDocument } from '../project';
+import { forEachReference, resolveOccurrence } from './referenceIndex';
+
+const TOKEN_TYPES = [
+  'namespace',
+  'class',
+  'function',
+  'interface',
+  'struct',
+  'type',
+  'enum',
+  'enumMember',
+  'variable',
+] as const;
+
+const TOKEN_MODIFIERS = [
+  'declaration',
+  'readonly',
+  'defaultLibrary',
+  'parameter',
+  'constant',
+  'input',
+  'output',
+  'flow',
+  'stream',
+  'discrete',
+] as const;
+
+type TokenType = (typeof TOKEN_TYPES)[number];
+type TokenModifier = (typeof TOKEN_MODIFIERS)[number];
+
+/**
+ * The token types and modifiers used by {@link getSemanticTokens}.
+ *
+ * Classes are mapped to standard token types by their restriction: packages
+ * are namespaces, connectors are interfaces and records are structs. The
+ * variability, causality and flow prefixes of components are reported as
+ * Modelica-specific modifiers.
+ */
+export const SEMANTIC_TOKENS_LEGEND: LSP.SemanticTokensLegend = {
+  tokenTypes: [...TOKEN_TYPES],
+  tokenModifiers: [...TOKEN_MODIFIERS],
+};
+
+const BUILTIN_TYPES = ['Real', 'Integer', 'Boolean', 'String'];
+
+interface Token {
+  node: Parser.SyntaxNode;
+  type: TokenType;
+  modifiers: TokenModifier[];
+}
+
+/**
+ * Classifies all identifiers of a document.
+ *
+ * Declarations are classified by their syntax, references by the declaration
+ * they resolve to. Symbols declared in read-only libraries are marked as
+ * `readonly`.
+ *
+ * @param document the document
+ * @param builder the builder to push the tokens to
+ */
+export function getSemanticTokens(
+  document: ModelicaDocument,
+  builder: LSP.SemanticTokensBuilder,
+): void {
+  const tokens = new Map<number, Token>();
+  const addToken = (token: Token) => tokens.set(token.node.startIndex, token);
+
+  TreeSitterUtil.forEach(document.tree.rootNode, (node) => {
+    switch (node.type) {
+      case 'class_definition': {
+        const identifier = node
+          .childForFieldName('classSpecifier')
+          ?.childForFieldName('identifier');
+        if (identifier) {
+          addToken({ node: identifier, type: getClassTokenType(node), modifiers: ['declaration'] });
+        }
+        return true;
+      }
+      case 'component_clause': {
+        const modifiers = getComponentModifiers(node);
+        const componentDeclarations =
+          node.childForFieldName('componentDeclarations')?.namedChildren ?? [];
+        for (const componentDeclaration of componentDeclarations) {
+          const identifier = componentDeclaration
+            .childForFieldName('declaration')
+            ?.childForFieldName('identifier');
+          if (identifier) {
+            addToken({
+              node: identifier,
+              type: 'variable',
+              modifiers: ['declaration', ...modifiers],
+            });
+          }
+        }
+        return true;
+      }
+      case 'enumeration_literal': {
+        const identifier = node.childForFieldName('identifier');
+        if (identifier) {
+          addToken({ node: identifier, type: 'enumMember', modifiers: ['declaration'] });
+        }
+        return false;
+      }
+      default:
+        return true;
+    }
+  });
+
+  forEachReference(document, (node, reference) => {
+    if (tokens.has(node.startIndex)) {
+      return;
+    }
+
+    if (reference.symbols.length === 1 && BUILTIN_TYPES.includes(node.text)) {
+      if (reference.kind === 'class') {
+        addToken({ node, type: 'type', modifiers: ['defaultLibrary'] });
+      }
+      return;
+    }
+
+    try {
+      const resolved = resolveOccurrence(document.project, reference);
+      if (!resolved) {
+        return;
+      }
+
+      const modifiers: TokenModifier[] =
+        resolved.document.library?.isWorkspace === false ? ['readonly'] : [];
+      if (resolved.kind === 'class') {
+        addToken({ node, type: getClassTokenType(resolved.node), modifiers });
+      } else {
+        modifiers.push(...getComponentModifiers(resolved.node));
+        addToken({ node, type: 'variable', modifiers });
+      }
+    } catch (e: unknown) {
+      logger.debug(`Failed to resolve ${reference}: `, e);
+    }
+  });
+
+  for (const { node, type, modifiers } of [...tokens.values()].sort(
+    (a, b) => a.node.startIndex - b.node.startIndex,
+  )) {
+    builder.push(
+      node.startPosition.row,
+      node.startPosition.column,
+      node.endIndex - node.startIndex,
+      TOKEN_TYPES.indexOf(type),
+      modifiers.reduce((bits, modifier) => bits | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0),
+    );
+  }
+}
+
+/**
+ * Maps the restriction of a class to a token type.
+ */
+function getClassTokenType(classDefinition: Parser.SyntaxNode): TokenType {
+  const prefixes = TreeSitterUtil.getClassPrefixes(classDefinition)?.split(/\s+/) ?? [];
+  if (prefixes.includes('package')) {
+    return 'namespace';
+  } else if (prefixes.includes('function')) {
+    return 'function';
+  } else if (prefixes.includes('connector')) {
+    return 'interface';
+  } else if (prefixes.includes('record')) {
+    return 'struct';
+  } else if (prefixes.includes('type')) {
+    const classSpecifier = classDefinition.childForFieldName('classSpecifier');
+    return classSpecifier?.type === 'enumeration_class_specifier' ? 'enum' : 'type';
+  } else {
+    return 'class';
+  }
+}
+
+/**
+ * Returns the token modifiers for the prefixes of a component declaration.
+ */
+function getComponentModifiers(node: Parser.SyntaxNode): TokenModifier[] {
+  return TreeSitterUtil.getComponentPrefixes(node).filter((prefix): prefix is TokenModifier =>
+    (TOKEN_MODIFIERS as readonly string[]).includes(prefix),
+  );
+}
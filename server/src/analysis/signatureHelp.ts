@@ -0,0 +1,304 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { logger } from '../util/logger';
+import { ModelicaDocument } from '../project';
+import { ResolvedReference } from './reference';
+import { resolveCallee, resolveSuperclass } from './resolveReference';
+
+/**
+ * A formal parameter of a function or record constructor.
+ */
+export interface CallParameter {
+  name: string;
+  /**
+   * The declaration of the parameter, e.g. `Real x = 2`.
+   */
+  label: string;
+  descriptionString?: string;
+}
+
+/**
+ * Collects the signature of the function call or record constructor
+ * surrounding the given position.
+ *
+ * @param document the opened document
+ * @param position the cursor position
+ * @returns the signature help, or `null` if the cursor is not inside a call
+ */
+export function getSignatureHelp(
+  document: ModelicaDocument,
+  position: LSP.Position,
+): LSP.SignatureHelp | null {
+  const text = document.getText();
+  const call = findEnclosingCall(text, document.offsetAt(position));
+  if (!call) {
+    return null;
+  }
+
+  const callee = resolveCallee(
+    document,
+    call.name,
+    document.tree.rootNode.descendantForIndex(call.nameIndex),
+  );
+  if (!callee) {
+    logger.debug(`Couldn't resolve callee ${call.name}`);
+    return null;
+  }
+
+  const parameters = getCallParameters(callee);
+  if (!parameters) {
+    return null;
+  }
+
+  let label = `${callee.symbols.join('.')}(`;
+  const parameterInformation: LSP.ParameterInformation[] = [];
+  for (const parameter of parameters) {
+    if (parameterInformation.length > 0) {
+      label += ', ';
+    }
+    parameterInformation.push({
+      label: [label.length, label.length + parameter.label.length],
+      documentation: parameter.descriptionString,
+    });
+    label += parameter.label;
+  }
+  label += ')';
+
+  // Named arguments: f(x = 1, y = |)
+  const namedArgument = text
+    .slice(call.argumentStartIndex)
+    .match(/^\s*([A-Za-z_]\w*)\s*=(?!=)/)?.[1];
+  const activeParameter = namedArgument
+    ? parameters.findIndex((parameter) => parameter.name === namedArgument)
+    : call.argumentIndex;
+
+  return {
+    signatures: [
+      {
+        label,
+        parameters: parameterInformation,
+        documentation: TreeSitterUtil.getDescriptionString(callee.node),
+      },
+    ],
+    activeSignature: 0,
+    activeParameter: activeParameter >= 0 ? activeParameter : undefined,
+  };
+}
+
+/**
+ * Returns the formal parameters of a function or record constructor in
+ * declaration order. Inherited parameters come first.
+ *
+ * Functions take their `input` components, record constructors take their
+ * public, non-constant components.
+ *
+ * @param callee a reference to the class declaration
+ * @returns the parameters, or `null` if the class is neither a function nor a
+ *     record
+ */
+export function getCallParameters(callee: ResolvedReference): CallParameter[] | null {
+  const restriction = TreeSitterUtil.getClassPrefixes(callee.node)?.split(/\s+/).at(-1);
+  if (restriction !== 'function' && restriction !== 'record') {
+    return null;
+  }
+
+  const parameters: CallParameter[] = [];
+  collectParameters(callee.document, callee.node, restriction, parameters, new Set());
+  return parameters;
+}
+
+function collectParameters(
+  document: ModelicaDocument,
+  classNode: Parser.SyntaxNode,
+  restriction: 'function' | 'record',
+  parameters: CallParameter[],
+  visited: Set<string>,
+): void {
+  const key = `${document.uri}:${classNode.startIndex}`;
+  if (classNode.type !== 'class_definition' || visited.has(key)) {
+    return;
+  }
+  visited.add(key);
+
+  const classSpecifier = classNode.childForFieldName('classSpecifier');
+  if (classSpecifier?.type === 'short_class_specifier') {
+    const superclass = resolveSuperclass(document, classSpecifier);
+    if (superclass) {
+      collectParameters(superclass.document, superclass.node, restriction, parameters, visited);
+    }
+    return;
+  }
+
+  for (const elementList of classSpecifier?.children.filter(TreeSitterUtil.isElementList) ?? []) {
+    for (const element of elementList.namedChildren) {
+      if (element.type === 'extends_clause') {
+        const superclass = resolveSuperclass(document, element);
+        if (superclass) {
+          collectParameters(superclass.document, superclass.node, restriction, parameters, visited);
+        }
+        continue;
+      }
+
+      const clause = TreeSitterUtil.getComponentClause(element);
+      if (element.type !== 'named_element' || !clause) {
+        continue;
+      }
+
+      const prefixes = TreeSitterUtil.getComponentPrefixes(element);
+      const isParameter =
+        restriction === 'function'
+          ? prefixes.includes('input')
+          : elementList.type !== 'protected_element_list' && !prefixes.includes('constant');
+      if (!isParameter) {
+        continue;
+      }
+
+      const type =
+        clause.childForFieldName('typeSpecifier')!.text +
+        (clause.childForFieldName('subscripts')?.text ?? '');
+      for (const componentDeclaration of clause.childForFieldName('componentDeclarations')
+        ?.namedChildren ?? []) {
+        const declaration = componentDeclaration.childForFieldName('declaration');
+        if (!declaration) {
+          continue;
+        }
+
+        parameters.push({
+          name: TreeSitterUtil.getDeclaredIdentifiers(declaration)[0],
+          label: `${type} ${declaration.text}`,
+          descriptionString: TreeSitterUtil.getDescriptionString(componentDeclaration),
+        });
+      }
+    }
+  }
+}
+
+interface EnclosingCall {
+  /**
+   * The name of the called function, e.g. `Modelica.Math.sin`.
+   */
+  name: string;
+  /**
+   * The offset of the start of the name.
+   */
+  nameIndex: number;
+  /**
+   * The index of the argument containing the offset.
+   */
+  argumentIndex: number;
+  /**
+   * The offset of the start of the argument containing the offset.
+   */
+  argumentStartIndex: number;
+}
+
+/**
+ * Finds the innermost call whose parentheses contain the offset.
+ *
+ * This works on the text rather than the syntax tree, because the tree is
+ * usually broken while the user is typing the arguments.
+ */
+function findEnclosingCall(text: string, offset: number): EnclosingCall | null {
+  const brackets: { char: string; index: number; commas: number; argumentStart: number }[] = [];
+
+  for (let i = 0; i < offset; i++) {
+    const char = text[i];
+    switch (char) {
+      case '"':
+        // Skip string literals
+        for (i++; i < offset && text[i] !== '"'; i++) {
+          if (text[i] === '\\') {
+            i++;
+          }
+        }
+        break;
+      case '/':
+        // Skip comments
+        if (text[i + 1] === '/') {
+          while (i < offset && text[i] !== '\n') {
+            i++;
+          }
+        } else if (text[i + 1] === '*') {
+          const end = text.indexOf('*/', i + 2);
+          i = end === -1 ? offset : end + 1;
+        }
+        break;
+      case '(':
+      case '[':
+      case '{':
+        brackets.push({ char, index: i, commas: 0, argumentStart: i + 1 });
+        break;
+      case ')':
+      case ']':
+      case '}':
+        brackets.pop();
+        break;
+      case ',': {
+        const top = brackets.at(-1);
+        if (top) {
+          top.commas++;
+          top.argumentStart = i + 1;
+        }
+        break;
+      }
+      case ';':
+        // Calls can't span multiple statements
+        brackets.length = 0;
+        break;
+    }
+  }
+
+  const call = brackets.filter((bracket) => bracket.char === '(').at(-1);
+  if (!call) {
+    return null;
+  }
+
+  const name = text.slice(0, call.index).match(/\.?(?:[A-Za-z_]\w*\.)*[A-Za-z_]\w*\s*$/)?.[0];
+  if (!name) {
+    return null;
+  }
+
+  return {
+    name: name.trim(),
+    nameIndex: call.index - name.length,
+    argumentIndex: call.commas,
+    argumentStartIndex: call.argumentStart,
+  };
+}
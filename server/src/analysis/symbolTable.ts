@@ -0,0 +1,227 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import Parser from 'web-tree-sitter';
+
+import * as TreeSitterUtil from '../util/tree-sitter';
+import { getKind } from '../util/declarations';
+import { ModelicaDocument, ModelicaProject } from '../project';
+import { DocumentIndex } from './documentIndex';
+
+/**
+ * Maximum number of symbols returned by {@link SymbolTable.find}.
+ */
+const MAX_RESULTS = 500;
+
+interface SymbolEntry {
+  /**
+   * The fully qualified name of the symbol, split by `.`.
+   */
+  path: string[];
+  symbol: LSP.SymbolInformation;
+}
+
+/**
+ * Table of all classes and components declared in the project, used for
+ * workspace symbol search.
+ */
+export class SymbolTable extends DocumentIndex<SymbolEntry[]> {
+  public constructor(project: ModelicaProject) {
+    super(project, 'symbols');
+  }
+
+  /**
+   * Finds all symbols matching a query.
+   *
+   * The query is matched fuzzily against the qualified names of the symbols:
+   * the last part of the query must match the name of the symbol and each
+   * other part must match one of the enclosing packages, in order. For
+   * instance, `Blocks.Cont.PID` matches `Modelica.Blocks.Continuous.PID`.
+   *
+   * @param query the query
+   * @returns the matching symbols, best matches first
+   */
+  public find(query: string): LSP.SymbolInformation[] {
+    const queryParts = query.trim().toLowerCase().split('.');
+    const matches: [number, SymbolEntry][] = [];
+    for (const entries of this.entries()) {
+      for (const entry of entries) {
+        const score = matchQualifiedName(queryParts, entry.path);
+        if (score !== null) {
+          matches.push([score, entry]);
+        }
+      }
+    }
+
+    return matches
+      .sort(([scoreA, a], [scoreB, b]) => scoreA - scoreB || a.path.length - b.path.length)
+      .slice(0, MAX_RESULTS)
+      .map(([_score, entry]) => entry.symbol);
+  }
+
+  protected indexDocument(document: ModelicaDocument): SymbolEntry[] {
+    return collectSymbols(document);
+  }
+}
+
+/**
+ * Collects all classes declared in a document and the components of its
+ * top-level classes.
+ */
+function collectSymbols(document: ModelicaDocument): SymbolEntry[] {
+  const entries: SymbolEntry[] = [];
+
+  const addSymbol = (
+    node: Parser.SyntaxNode,
+    name: string,
+    kind: LSP.SymbolKind,
+    containerPath: string[],
+  ) => {
+    entries.push({
+      path: [...containerPath, name],
+      symbol: LSP.SymbolInformation.create(
+        name,
+        kind,
+        TreeSitterUtil.range(node),
+        document.uri,
+        containerPath.join('.'),
+      ),
+    });
+  };
+
+  const visitClass = (
+    classDefinition: Parser.SyntaxNode,
+    containerPath: string[],
+    isTopLevel: boolean,
+  ) => {
+    const name = TreeSitterUtil.getDeclaredIdentifiers(classDefinition).at(0);
+    if (!name) {
+      return;
+    }
+
+    addSymbol(
+      classDefinition,
+      name,
+      getKind(classDefinition) ?? LSP.SymbolKind.Class,
+      containerPath,
+    );
+
+    const path = [...containerPath, name];
+    for (const element of TreeSitterUtil.getClassElements(classDefinition)) {
+      if (element.type !== 'named_element') {
+        continue;
+      }
+
+      const nestedClass = element.childForFieldName('classDefinition');
+      if (nestedClass) {
+        visitClass(nestedClass, path, false);
+        continue;
+      }
+
+      if (!isTopLevel) {
+        continue;
+      }
+
+      const kind = getKind(element) ?? LSP.SymbolKind.Field;
+      for (const identifier of TreeSitterUtil.getDeclaredIdentifiers(element)) {
+        addSymbol(element, identifier, kind, path);
+      }
+    }
+  };
+
+  for (const storedDefinition of document.tree.rootNode.children) {
+    const classDefinition = storedDefinition.childForFieldName('classDefinition');
+    if (storedDefinition.type === 'stored_definition' && classDefinition) {
+      visitClass(classDefinition, document.within, true);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Matches a query against a qualified name.
+ *
+ * @param queryParts the lower-case query, split by `.`
+ * @param path the qualified name, split by `.`
+ * @returns a score (lower is better), or `null` if the name doesn't match
+ */
+function matchQualifiedName(queryParts: string[], path: string[]): number | null {
+  let score = matchName(queryParts.at(-1)!, path.at(-1)!);
+  if (score === null) {
+    return null;
+  }
+
+  // Match the remaining query parts against the containers, right to left
+  let container = path.length - 2;
+  for (let i = queryParts.length - 2; i >= 0; i--) {
+    let containerScore: number | null = null;
+    while (container >= 0 && containerScore === null) {
+      containerScore = matchName(queryParts[i], path[container--]);
+    }
+    if (containerScore === null) {
+      return null;
+    }
+    score += containerScore;
+  }
+
+  return score;
+}
+
+/**
+ * Matches a query against a simple name. The characters of the query must
+ * appear in the name in order, ignoring case.
+ *
+ * @returns `0` for exact matches, `1` for prefix matches, `2` for other
+ *     matches or `null` if the name doesn't match
+ */
+function matchName(query: string, name: string): number | null {
+  const lowerName = name.toLowerCase();
+  if (lowerName === query) {
+    return 0;
+  } else if (lowerName.startsWith(query)) {
+    return 1;
+  }
+
+  let position = 0;
+  for (const character of query) {
+    position = lowerName.indexOf(character, position) + 1;
+    if (position === 0) {
+      return null;
+    }
+  }
+  return 2;
+}
@@ -0,0 +1,105 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import resolveReference from '../resolveReference';
+import { UnresolvedAbsoluteReference } from '../reference';
+import { ReferenceIndex } from '../referenceIndex';
+import {
+  createCallHierarchyItem,
+  getIncomingCalls,
+  getOutgoingCalls,
+  isFunction,
+} from '../callHierarchy';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const FUNCTIONS = ['TestLibrary', 'TestPackage', 'Functions'];
+
+describe('callHierarchy', () => {
+  let project: ModelicaProject;
+  let index: ReferenceIndex;
+
+  const resolve = (symbols: string[]) =>
+    resolveReference(project, new UnresolvedAbsoluteReference(symbols))!;
+  const prepare = (symbols: string[]) => createCallHierarchyItem(resolve(symbols));
+  const lines = (ranges: LSP.Range[]) => ranges.map((range) => range.start.line);
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    index = new ReferenceIndex(project);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should only prepare functions', () => {
+    assert(isFunction(resolve([...FUNCTIONS, 'norm'])));
+    assert(!isFunction(resolve([...FUNCTIONS, 'Distance'])));
+    assert(!isFunction(resolve([...FUNCTIONS, 'norm', 'a'])));
+  });
+
+  it('should find calls in bindings and algorithms', () => {
+    const calls = getOutgoingCalls(project, prepare([...FUNCTIONS, 'norm']));
+    assert.deepEqual(
+      calls.map(({ to, fromRanges }) => [to.name, lines(fromRanges)]),
+      [['square', [12, 14]]],
+    );
+  });
+
+  it('should find calls in equations and through import aliases', () => {
+    const calls = getOutgoingCalls(project, prepare([...FUNCTIONS, 'Distance']));
+    assert.deepEqual(
+      calls.map(({ to, fromRanges }) => [to.name, lines(fromRanges)]),
+      [
+        ['norm', [18, 21]],
+        ['square', [21]],
+      ],
+    );
+  });
+
+  it('should find callers', () => {
+    const calls = getIncomingCalls(project, prepare([...FUNCTIONS, 'square']), index);
+    assert.deepEqual(
+      calls.map(({ from, fromRanges }) => [from.name, lines(fromRanges)]),
+      [
+        ['norm', [12, 14]],
+        ['Distance', [21]],
+      ],
+    );
+  });
+});
@@ -0,0 +1,180 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import url from 'node:url';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import resolveReference from '../resolveReference';
+import { ResolvedReference, UnresolvedAbsoluteReference } from '../reference';
+import { ReferenceIndex } from '../referenceIndex';
+import { InheritanceIndex } from '../inheritanceIndex';
+import {
+  GENERATE_SIMULATION_SCRIPT_COMMAND,
+  getCodeLenses,
+  getSimulationScript,
+  resolveCodeLens,
+  SHOW_REFERENCES_COMMAND,
+} from '../codeLens';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const TEST_PACKAGE_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage');
+const BASE_MODEL_PATH = path.join(TEST_PACKAGE_PATH, 'BaseModel.mo');
+const BOUNCING_BALL_PATH = path.join(TEST_PACKAGE_PATH, 'BouncingBall.mo');
+
+describe('codeLens', () => {
+  let project: ModelicaProject;
+  let referenceIndex: ReferenceIndex;
+  let inheritanceIndex: InheritanceIndex;
+
+  const lenses = async (documentPath: string) =>
+    getCodeLenses((await project.getDocument(documentPath))!).map((lens) =>
+      resolveCodeLens(project, lens, referenceIndex, inheritanceIndex),
+    );
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    referenceIndex = new ReferenceIndex(project);
+    inheritanceIndex = new InheritanceIndex(project);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should create unresolved lenses above classes', async () => {
+    const document = (await project.getDocument(BASE_MODEL_PATH))!;
+    const unresolved = getCodeLenses(document);
+    assert.equal(unresolved.length, 2);
+    assert(unresolved.every((lens) => lens.command === undefined));
+    assert.deepEqual(unresolved[0].range, LSP.Range.create(2, 14, 2, 23));
+  });
+
+  it('should count usages and subclasses', async () => {
+    const [usages, subclasses] = await lenses(BASE_MODEL_PATH);
+    const testModelUri = url.pathToFileURL(path.join(TEST_PACKAGE_PATH, 'TestModel.mo')).href;
+
+    assert.equal(usages.command?.title, '1 usage');
+    assert.equal(usages.command?.command, SHOW_REFERENCES_COMMAND);
+    assert.deepEqual(usages.command?.arguments?.[2], [
+      LSP.Location.create(testModelUri, LSP.Range.create(5, 10, 5, 19)),
+    ]);
+
+    assert.equal(subclasses.command?.title, 'extended by 1');
+    assert.deepEqual(subclasses.command?.arguments?.[2], [
+      LSP.Location.create(testModelUri, LSP.Range.create(2, 6, 2, 15)),
+    ]);
+  });
+
+  it('should not count the end of a class as usage', async () => {
+    const [usages, subclasses] = await lenses(BOUNCING_BALL_PATH);
+    assert.equal(usages.command?.title, '0 usages');
+    assert.equal(subclasses.command?.title, 'extended by 0');
+  });
+
+  it('should not count within and import clauses as usages', async () => {
+    const [usages] = await lenses(path.join(TEST_PACKAGE_PATH, 'package.mo'));
+    assert.equal(usages.command?.title, '0 usages');
+  });
+
+  it('should offer simulation scripts for models with experiments', async () => {
+    const titles = (await lenses(BOUNCING_BALL_PATH)).map((lens) => lens.command?.command);
+    assert.deepEqual(titles, [
+      SHOW_REFERENCES_COMMAND,
+      SHOW_REFERENCES_COMMAND,
+      GENERATE_SIMULATION_SCRIPT_COMMAND,
+    ]);
+  });
+
+  it('should generate simulation scripts', () => {
+    const model = resolveReference(
+      project,
+      new UnresolvedAbsoluteReference(['TestLibrary', 'TestPackage', 'BouncingBall']),
+    )!;
+    const script = getSimulationScript(model)!;
+
+    assert.equal(
+      script.uri,
+      url.pathToFileURL(path.join(TEST_PACKAGE_PATH, 'BouncingBall.mos')).href,
+    );
+    assert.equal(
+      script.text,
+      [
+        '// Simulation script for TestLibrary.TestPackage.BouncingBall',
+        `loadFile("${path.join(TEST_LIBRARY_PATH, 'package.mo').replace(/\\/g, '/')}");`,
+        'getErrorString();',
+        'simulate(TestLibrary.TestPackage.BouncingBall, startTime = 0, stopTime = 3, ' +
+          'tolerance = 1e-6, numberOfIntervals = 300);',
+        'getErrorString();',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  describe('simulation scripts of read-only libraries', () => {
+    let readOnlyModel: ResolvedReference;
+
+    beforeEach(async () => {
+      const parser = await initializeParser();
+      const readOnlyProject = new ModelicaProject(parser);
+      readOnlyProject.addLibrary(
+        await ModelicaLibrary.load(readOnlyProject, TEST_LIBRARY_PATH, false),
+      );
+      readOnlyModel = resolveReference(
+        readOnlyProject,
+        new UnresolvedAbsoluteReference(['TestLibrary', 'TestPackage', 'BouncingBall']),
+      )!;
+    });
+
+    it('should store scripts in the workspace without replacing existing scripts', () => {
+      const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'modelica-'));
+      try {
+        fs.writeFileSync(path.join(workspacePath, 'BouncingBall.mos'), '');
+        assert.equal(
+          getSimulationScript(readOnlyModel, workspacePath)!.uri,
+          url.pathToFileURL(path.join(workspacePath, 'BouncingBall_1.mos')).href,
+        );
+      } finally {
+        fs.rmSync(workspacePath, { recursive: true });
+      }
+    });
+
+    it('should create untitled scripts without a workspace', () => {
+      assert.equal(getSimulationScript(readOnlyModel)!.uri, 'untitled:BouncingBall.mos');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import * as LSP from 'vscode-languageserver/node';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import { getCompletions } from '../completion';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const TEST_MODEL_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'TestModel.mo');
+
+describe('getCompletions', () => {
+  let project: ModelicaProject;
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should offer all symbols in scope', async () => {
+    // y = C.e * x;
+    //     ^ 11:6
+    const document = (await project.getDocument(TEST_MODEL_PATH))!;
+    const completions = getCompletions(document, { line: 11, character: 6 });
+    const labels = completions.map((item) => item.label);
+
+    // local, inherited, imported, enclosing package and library symbols
+    for (const label of [
+      'k',
+      'x',
+      'u',
+      'y',
+      'e',
+      'pi',
+      'C',
+      'TestClass',
+      'BaseModel',
+      'TestModel',
+      'TestLibrary',
+    ]) {
+      assert(labels.includes(label), `Missing completion item '${label}'`);
+    }
+
+    const k = completions.find((item) => item.label === 'k')!;
+    assert.equal(k.kind, LSP.CompletionItemKind.Constant);
+    assert.equal(k.detail, 'parameter Real');
+    assert.equal(k.documentation, 'Gain');
+
+    const testClass = completions.find((item) => item.label === 'TestClass')!;
+    assert.equal(testClass.kind, LSP.CompletionItemKind.Function);
+  });
+
+  it('should offer members after a dot', async () => {
+    // y = C.e * x;
+    //       ^ 11:8
+    const document = (await project.getDocument(TEST_MODEL_PATH))!;
+    const completions = getCompletions(document, { line: 11, character: 8 });
+
+    assert.deepEqual(completions.map((item) => item.label).sort(), ['e', 'pi']);
+  });
+
+  it('should offer members of packages in directories', async () => {
+    const document = (await project.getDocument(TEST_MODEL_PATH))!;
+    document.update('TestLibrary.TestPackage.', {
+      start: { line: 11, character: 6 },
+      end: { line: 11, character: 9 },
+    });
+    const completions = getCompletions(document, { line: 11, character: 30 });
+
+    assert.deepEqual(completions.map((item) => item.label).sort(), [
+      'BaseModel',
+      'BouncingBall',
+      'Circuit',
+      'Functions',
+      'InnerOuter',
+      'Media',
+      'TestClass',
+      'TestModel',
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import { initializeParser } from '../../parser';
+import { getSyntaxDiagnostics } from '../diagnostics';
+
+describe('getSyntaxDiagnostics', () => {
+  const getDiagnostics = async (text: string) => {
+    const parser = await initializeParser();
+    return getSyntaxDiagnostics(parser.parse(text)).map(({ range, message }) => [
+      range.start.line,
+      range.start.character,
+      message,
+    ]);
+  };
+
+  it('should not report valid documents', async () => {
+    assert.deepEqual(await getDiagnostics('model M\n  Real x;\nend M;\n'), []);
+  });
+
+  it('should report missing tokens', async () => {
+    const diagnostics = await getDiagnostics(
+      ['model M', '  Real x', '  Real y;', 'equation', '  x = ;', '  y = (1 + 2;', 'end M;'].join(
+        '\n',
+      ),
+    );
+    assert.deepEqual(diagnostics, [
+      [1, 8, "expected ';'"],
+      [4, 5, 'expected identifier'],
+      [5, 12, "expected ')'"],
+    ]);
+  });
+
+  it('should report unexpected tokens', async () => {
+    const diagnostics = await getDiagnostics(
+      ['model M', '  Real x;', 'equation', '  x = 1;', '  end;', 'end M;'].join('\n'),
+    );
+    assert.deepEqual(diagnostics, [[4, 2, "unexpected token 'end'"]]);
+  });
+});
@@ -0,0 +1,83 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import { getColorPresentations, getDocumentColors } from '../documentColor';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const CIRCUIT_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'Circuit.mo');
+
+describe('documentColor', () => {
+  let project: ModelicaProject;
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should find colors in graphical annotations', async () => {
+    const document = (await project.getDocument(CIRCUIT_PATH))!;
+    const colors = getDocumentColors(document).map(({ range, color }) => [
+      document.getText(range),
+      [color.red, color.green, color.blue].map((component) => Math.round(component * 255)),
+    ]);
+
+    // {0, 0, 300} is not a valid color
+    assert.deepEqual(colors, [
+      ['{0, 0, 255}', [0, 0, 255]],
+      ['{255,255,255}', [255, 255, 255]],
+      ['{0, 127, 0}', [0, 127, 0]],
+    ]);
+  });
+
+  it('should keep the format of edited colors', async () => {
+    const document = (await project.getDocument(CIRCUIT_PATH))!;
+    const [lineColor, fillColor] = getDocumentColors(document);
+    const color = LSP.Color.create(1, 0.5, 0, 1);
+
+    assert.deepEqual(
+      getColorPresentations(document, color, lineColor.range).map(({ label }) => label),
+      ['{255, 128, 0}'],
+    );
+    assert.deepEqual(getColorPresentations(document, color, fillColor.range), [
+      { label: '{255,128,0}', textEdit: LSP.TextEdit.replace(fillColor.range, '{255,128,0}') },
+    ]);
+  });
+});
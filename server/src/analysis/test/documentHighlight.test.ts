@@ -0,0 +1,96 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import resolveReference from '../resolveReference';
+import { UnresolvedAbsoluteReference } from '../reference';
+import { getDocumentHighlights } from '../documentHighlight';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const BOUNCING_BALL_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'BouncingBall.mo');
+
+const { Text, Read, Write } = LSP.DocumentHighlightKind;
+
+describe('getDocumentHighlights', () => {
+  let project: ModelicaProject;
+
+  const highlight = async (symbols: string[]) => {
+    const document = (await project.getDocument(BOUNCING_BALL_PATH))!;
+    const declaration = resolveReference(project, new UnresolvedAbsoluteReference(symbols))!;
+    return getDocumentHighlights(document, declaration).map(({ range, kind }) => [
+      range.start.line,
+      range.start.character,
+      kind,
+    ]);
+  };
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should mark der() and reinit() as writes', async () => {
+    const highlights = await highlight(['TestLibrary', 'TestPackage', 'BouncingBall', 'v']);
+    assert.deepEqual(highlights, [
+      [5, 7, Text],
+      [8, 11, Read],
+      [9, 6, Write],
+      [11, 11, Write],
+      [11, 23, Read],
+    ]);
+  });
+
+  it('should mark assignments as writes', async () => {
+    const highlights = await highlight(['TestLibrary', 'TestPackage', 'BouncingBall', 'bounces']);
+    assert.deepEqual(highlights, [
+      [6, 10, Text],
+      [15, 4, Write],
+      [15, 19, Read],
+    ]);
+  });
+
+  it('should highlight classes', async () => {
+    const highlights = await highlight(['TestLibrary', 'TestPackage', 'BouncingBall']);
+    assert.deepEqual(highlights, [
+      [2, 6, Text],
+      [18, 4, Read],
+    ]);
+  });
+});
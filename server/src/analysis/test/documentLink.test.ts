@@ -0,0 +1,99 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import url from 'node:url';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import { getDocumentLinkDiagnostics, getDocumentLinks, resolveModelicaUri } from '../documentLink';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const TEST_LIBRARY_PACKAGE_PATH = path.join(TEST_LIBRARY_PATH, 'package.mo');
+
+describe('documentLink', () => {
+  let project: ModelicaProject;
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should link resources and classes', async () => {
+    const document = (await project.getDocument(TEST_LIBRARY_PACKAGE_PATH))!;
+    const links = getDocumentLinks(document);
+
+    const logoPath = path.join(TEST_LIBRARY_PATH, 'Resources', 'Images', 'logo.svg');
+    const bouncingBallPath = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'BouncingBall.mo');
+    assert.deepEqual(links, [
+      {
+        range: LSP.Range.create(1, 64, 1, 112),
+        target: url.pathToFileURL(logoPath).href,
+        tooltip: 'modelica://TestLibrary/Resources/Images/logo.svg',
+      },
+      {
+        range: LSP.Range.create(3, 24, 3, 71),
+        target: url.pathToFileURL(bouncingBallPath).href,
+        tooltip: 'modelica://TestLibrary.TestPackage.BouncingBall',
+      },
+    ]);
+  });
+
+  it('should warn about missing targets', async () => {
+    const document = (await project.getDocument(TEST_LIBRARY_PACKAGE_PATH))!;
+    const diagnostics = getDocumentLinkDiagnostics(document).map(({ range, severity }) => [
+      range.start.line,
+      range.start.character,
+      severity,
+    ]);
+
+    // Links into libraries that aren't loaded are ignored
+    assert.deepEqual(diagnostics, [
+      [4, 18, LSP.DiagnosticSeverity.Warning],
+      [5, 11, LSP.DiagnosticSeverity.Warning],
+    ]);
+  });
+
+  it('should resolve package directories', () => {
+    const target = resolveModelicaUri(project, 'modelica://TestLibrary.TestPackage/package.mo');
+    assert.equal(
+      target,
+      url.pathToFileURL(path.join(TEST_LIBRARY_PATH, 'TestPackage', 'package.mo')).href,
+    );
+    assert.equal(resolveModelicaUri(project, 'modelica://Modelica/Resources/x.png'), undefined);
+  });
+});
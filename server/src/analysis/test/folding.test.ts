@@ -0,0 +1,71 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import { initializeParser } from '../../parser';
+import { getFoldingRanges } from '../folding';
+
+const TEST_MODEL = `/* Block
+   comment */
+model M
+  Real x annotation(
+    Placement(transformation(extent = {{-10, -10}, {10, 10}})));
+protected
+  Real y;
+  Real z;
+equation
+  x = 1;
+  y = 2;
+  z = 3 annotation(Line(points = {{0, 0}}));
+end M;
+`;
+
+describe('getFoldingRanges', () => {
+  it('should fold classes, sections, annotations and comments', async () => {
+    const parser = await initializeParser();
+    const ranges = getFoldingRanges(parser.parse(TEST_MODEL)).map(
+      ({ startLine, endLine, kind }) => [startLine, endLine, kind],
+    );
+
+    assert.deepEqual(ranges, [
+      [0, 1, LSP.FoldingRangeKind.Comment],
+      [2, 11, undefined],
+      [3, 4, LSP.FoldingRangeKind.Region],
+      [5, 7, undefined],
+      [8, 11, undefined],
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import Parser from 'web-tree-sitter';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as LSP from 'vscode-languageserver/node';
+import { initializeParser } from '../../parser';
+import { DEFAULT_FORMATTING_OPTIONS, FormattingOptions, getFormattingEdits } from '../formatting';
+
+const UNFORMATTED_MODEL = `model M "description"  // comment
+parameter Real a=1;
+ Real x[3](each start=0),y;
+model Inner
+Real z;
+end Inner;
+equation
+  der( y )= -a*y+x[1]^2 ;
+  if a>b then
+  x={1,2,
+  3};
+  end if;
+annotation(experiment(StopTime=1));
+end M;
+`;
+
+const FORMATTED_MODEL = `model M "description" // comment
+  parameter Real a = 1;
+  Real x[3](each start = 0), y;
+  model Inner
+    Real z;
+  end Inner;
+equation
+  der(y) = -a * y + x[1]^2;
+  if a > b then
+    x = {1, 2,
+      3};
+  end if;
+  annotation(experiment(StopTime = 1));
+end M;
+`;
+
+describe('getFormattingEdits', () => {
+  let parser: Parser;
+
+  before(async () => {
+    parser = await initializeParser();
+  });
+
+  function format(text: string, options?: Partial<FormattingOptions>, range?: LSP.Range): string {
+    const edits = getFormattingEdits(
+      parser.parse(text),
+      text,
+      { ...DEFAULT_FORMATTING_OPTIONS, ...options },
+      range,
+    );
+    return TextDocument.applyEdits(TextDocument.create('', 'modelica', 0, text), edits);
+  }
+
+  it('should indent and space classes, sections and equations', () => {
+    assert.equal(format(UNFORMATTED_MODEL), FORMATTED_MODEL);
+  });
+
+  it('should not change formatted documents', () => {
+    assert.equal(format(FORMATTED_MODEL), FORMATTED_MODEL);
+  });
+
+  it('should only format the given range', () => {
+    const range = LSP.Range.create(1, 0, 1, 20);
+    assert.equal(
+      format(UNFORMATTED_MODEL, {}, range),
+      UNFORMATTED_MODEL.replace('parameter Real a=1;', '  parameter Real a = 1;'),
+    );
+  });
+
+  it('should indent with tabs', () => {
+    assert.equal(
+      format('model M\nReal x;\nend M;\n', { insertSpaces: false }),
+      'model M\n\tReal x;\nend M;\n',
+    );
+  });
+
+  it('should preserve comments and strings', () => {
+    const text = `model M
+  /*  keep
+     this  */
+  Real x "a  description" annotation(Documentation(info="<html>
+  keep   this
+</html>"));
+end M;
+`;
+    assert.equal(
+      format(text),
+      `model M
+  /*  keep
+     this  */
+  Real x "a  description" annotation(Documentation(info = "<html>
+  keep   this
+</html>"));
+end M;
+`,
+    );
+  });
+
+  it('should indent comments before section keywords like the section', () => {
+    const text = `model M
+Real x;
+    /* about
+       the equations */
+equation
+  x = 1;
+// last
+end M;
+`;
+    assert.equal(
+      format(text),
+      `model M
+  Real x;
+  /* about
+     the equations */
+equation
+  x = 1;
+  // last
+end M;
+`,
+    );
+  });
+
+  it('should put each component of long component lists on its own line', () => {
+    const text = 'model M\n  Real alpha = 1, beta = 2, gamma = 3;\n  Real x, y;\nend M;\n';
+    assert.equal(
+      format(text, { maxLineLength: 30 }),
+      'model M\n  Real alpha = 1,\n    beta = 2,\n    gamma = 3;\n  Real x, y;\nend M;\n',
+    );
+  });
+
+  it('should wrap annotations', () => {
+    const text = `model M
+  Real x annotation(Placement(transformation(extent={{-10,-10},{10,10}})),
+    Dialog(group="Parameters"));
+end M;
+`;
+    assert.equal(
+      format(text, { maxLineLength: 70 }),
+      `model M
+  Real x annotation(
+    Placement(transformation(extent = {{-10, -10}, {10, 10}})),
+    Dialog(group = "Parameters"));
+end M;
+`,
+    );
+    assert.equal(
+      format(text, { maxLineLength: 70, reflowAnnotations: false }),
+      `model M
+  Real x annotation(Placement(transformation(extent = {{-10, -10}, {10, 10}})),
+    Dialog(group = "Parameters"));
+end M;
+`,
+    );
+  });
+
+  it('should not format documents with syntax errors', () => {
+    const text = 'model M\nReal x = ;\nend M;\n';
+    assert.deepEqual(getFormattingEdits(parser.parse(text), text, DEFAULT_FORMATTING_OPTIONS), []);
+  });
+});
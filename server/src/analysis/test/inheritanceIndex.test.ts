@@ -0,0 +1,118 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import resolveReference from '../resolveReference';
+import { UnresolvedAbsoluteReference } from '../reference';
+import { getImplementations, InheritanceIndex } from '../inheritanceIndex';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const BASE_MODEL_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'BaseModel.mo');
+const MEDIA = ['TestLibrary', 'TestPackage', 'Media'];
+
+describe('InheritanceIndex', () => {
+  let project: ModelicaProject;
+  let index: InheritanceIndex;
+
+  const resolve = (symbols: string[]) =>
+    resolveReference(project, new UnresolvedAbsoluteReference(symbols))!;
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    index = new InheritanceIndex(project);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should find direct subclasses', () => {
+    const subclasses = index.getSubclasses(resolve([...MEDIA, 'PartialMedium']));
+    assert.deepEqual(
+      subclasses.map((subclass) => subclass.symbols),
+      [
+        [...MEDIA, 'Water'],
+        [...MEDIA, 'Air'],
+      ],
+    );
+
+    const baseModel = resolve(['TestLibrary', 'TestPackage', 'BaseModel']);
+    assert.deepEqual(
+      index.getSubclasses(baseModel).map((subclass) => subclass.symbols),
+      [['TestLibrary', 'TestPackage', 'TestModel']],
+    );
+  });
+
+  it('should update subclasses when their superclass is added', async () => {
+    await project.removeDocument(BASE_MODEL_PATH);
+    index.update();
+
+    await project.addDocument(BASE_MODEL_PATH);
+    const baseModel = resolve(['TestLibrary', 'TestPackage', 'BaseModel']);
+    assert.deepEqual(
+      index.getSubclasses(baseModel).map((subclass) => subclass.symbols),
+      [['TestLibrary', 'TestPackage', 'TestModel']],
+    );
+  });
+
+  it('should find transitive subclasses', () => {
+    const subclasses = index.getAllSubclasses(resolve([...MEDIA, 'PartialMedium']));
+    assert.deepEqual(
+      subclasses.map((subclass) => subclass.symbols.at(-1)),
+      ['Water', 'Air', 'HumidAir'],
+    );
+  });
+
+  it('should find redeclarations in modifications and elements', () => {
+    const redeclarations = index
+      .getRedeclarations(resolve([...MEDIA, 'PartialPipe', 'Medium']))
+      .map(({ node }) => [node.startPosition.row, node.startPosition.column]);
+    assert.deepEqual(redeclarations, [
+      [17, 42],
+      [21, 22],
+      [24, 37],
+    ]);
+  });
+
+  it('should only list implementations of partial and replaceable elements', () => {
+    const lines = (symbols: string[]) =>
+      getImplementations(resolve(symbols), index).map(({ range }) => range.start.line);
+
+    assert.deepEqual(lines([...MEDIA, 'PartialMedium']), [6, 9, 10]);
+    assert.deepEqual(lines([...MEDIA, 'PartialPipe', 'Medium']), [17, 21, 24]);
+    assert.deepEqual(lines([...MEDIA, 'Air']), []);
+  });
+});
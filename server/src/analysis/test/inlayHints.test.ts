@@ -0,0 +1,104 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import { DEFAULT_INLAY_HINT_OPTIONS, getInlayHints, InlayHintOptions } from '../inlayHints';
+
+const TEST_PACKAGE_PATH = path.join(__dirname, 'TestLibrary', 'TestPackage');
+const FUNCTIONS_PATH = path.join(TEST_PACKAGE_PATH, 'Functions.mo');
+const CIRCUIT_PATH = path.join(TEST_PACKAGE_PATH, 'Circuit.mo');
+
+describe('getInlayHints', () => {
+  let project: ModelicaProject;
+
+  const hints = async (
+    documentPath: string,
+    range: LSP.Range,
+    options: Partial<InlayHintOptions> = {},
+  ) => {
+    const document = (await project.getDocument(documentPath))!;
+    return getInlayHints(document, range, { ...DEFAULT_INLAY_HINT_OPTIONS, ...options }).map(
+      ({ position, label }) => [position.line, position.character, label],
+    );
+  };
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    project.addLibrary(
+      await ModelicaLibrary.load(project, path.join(__dirname, 'TestLibrary'), true),
+    );
+  });
+
+  it('should show parameter names of positional arguments', async () => {
+    // model Distance
+    //   import F = TestLibrary.TestPackage.Functions;
+    //   Real d = F.norm(3, 4);
+    //   Real e;
+    // equation
+    //   e = norm(3, F.square(2));
+    // end Distance;
+    assert.deepEqual(await hints(FUNCTIONS_PATH, LSP.Range.create(16, 0, 22, 0)), [
+      [18, 20, 'a='],
+      [18, 23, 'b='],
+      [21, 13, 'a='],
+      [21, 16, 'b='],
+      [21, 25, 'u='],
+    ]);
+  });
+
+  it('should show units of declarations and references', async () => {
+    // type Voltage = Real(unit = "V");
+    // type SupplyVoltage = Voltage(start = 12);
+    // ...
+    // SupplyVoltage v;
+    // ...
+    // v = fast.x + slow.z;
+    assert.deepEqual(await hints(CIRCUIT_PATH, LSP.Range.create(0, 0, 12, 0)), [
+      [6, 17, '[V]'],
+      [10, 3, '[V]'],
+    ]);
+  });
+
+  it('should only show enabled hints', async () => {
+    const range = LSP.Range.create(0, 0, 30, 0);
+    assert.deepEqual(await hints(FUNCTIONS_PATH, range, { parameterNames: false }), []);
+    assert.deepEqual(await hints(CIRCUIT_PATH, range, { units: false }), []);
+  });
+});
@@ -0,0 +1,70 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import { initializeParser } from '../../parser';
+import { getLinkedEditingRanges } from '../linkedEditingRange';
+
+const TEST_PACKAGE = `package P
+  model M
+    Real x;
+  end M;
+  type T = Real;
+end P;
+`;
+
+describe('getLinkedEditingRanges', () => {
+  const getRanges = async (line: number, character: number) => {
+    const parser = await initializeParser();
+    const tree = parser.parse(TEST_PACKAGE);
+    return getLinkedEditingRanges(tree, LSP.Position.create(line, character))?.ranges;
+  };
+
+  it('should link class names to their end clauses', async () => {
+    const ranges = [LSP.Range.create(1, 8, 1, 9), LSP.Range.create(3, 6, 3, 7)];
+    assert.deepEqual(await getRanges(1, 8), ranges);
+    assert.deepEqual(await getRanges(3, 7), ranges);
+    assert.deepEqual(await getRanges(0, 8), [
+      LSP.Range.create(0, 8, 0, 9),
+      LSP.Range.create(5, 4, 5, 5),
+    ]);
+  });
+
+  it('should ignore other identifiers', async () => {
+    assert.equal(await getRanges(2, 9), undefined);
+    assert.equal(await getRanges(4, 7), undefined);
+  });
+});
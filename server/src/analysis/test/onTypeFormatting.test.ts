@@ -0,0 +1,122 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { initializeParser } from '../../parser';
+import { DEFAULT_FORMATTING_OPTIONS } from '../formatting';
+import { getOnTypeFormattingEdits } from '../onTypeFormatting';
+
+describe('getOnTypeFormattingEdits', () => {
+  /**
+   * Types a character at the `|` in the text and returns the formatted text.
+   */
+  const type = async (textWithCursor: string, ch = '\n') => {
+    const offset = textWithCursor.indexOf('|');
+    const text = textWithCursor.slice(0, offset) + ch + textWithCursor.slice(offset + 1);
+    const document = TextDocument.create('file:///M.mo', 'modelica', 0, text);
+    const position = document.positionAt(offset + ch.length);
+
+    const parser = await initializeParser();
+    const edits = getOnTypeFormattingEdits(
+      parser.parse(text),
+      text,
+      position,
+      ch,
+      DEFAULT_FORMATTING_OPTIONS,
+    );
+    return TextDocument.applyEdits(document, edits);
+  };
+
+  it('should insert the end of unterminated classes', async () => {
+    assert.equal(
+      await type('package P\n  model Foo "A model"|\nend P;\n'),
+      'package P\n  model Foo "A model"\n    \n  end Foo;\nend P;\n',
+    );
+    assert.equal(await type('model Foo|'), 'model Foo\n  \nend Foo;');
+  });
+
+  it('should not insert the end of terminated classes', async () => {
+    assert.equal(await type('model M|\n  Real x;\nend M;\n'), 'model M\n  \n  Real x;\nend M;\n');
+    assert.equal(await type('type T = Real;|\n'), 'type T = Real;\n\n');
+  });
+
+  it('should indent sections like their class', async () => {
+    assert.equal(
+      await type('model M\n  Real x;\n  equation|\nend M;\n'),
+      'model M\n  Real x;\nequation\n  \nend M;\n',
+    );
+    assert.equal(
+      await type('model M\n  Real x;\n    initial algorithm|\nend M;\n'),
+      'model M\n  Real x;\ninitial algorithm\n  \nend M;\n',
+    );
+  });
+
+  it('should indent blocks', async () => {
+    assert.equal(
+      await type('model M\nequation\n  when x > 0 then|\nend M;\n'),
+      'model M\nequation\n  when x > 0 then\n    \nend M;\n',
+    );
+    assert.equal(
+      await type('model M\nequation\n  if a then\n    y = 1;\n    else|\nend M;\n'),
+      'model M\nequation\n  if a then\n    y = 1;\n  else\n    \nend M;\n',
+    );
+    assert.equal(
+      await type('model M\nalgorithm\n  for i in 1:3 loop\n    y := i;\n  end for;|\nend M;\n'),
+      'model M\nalgorithm\n  for i in 1:3 loop\n    y := i;\n  end for;\n  \nend M;\n',
+    );
+  });
+
+  it('should indent wrapped lines', async () => {
+    assert.equal(
+      await type('model M\n  parameter Real x = 1 +|\nend M;\n'),
+      'model M\n  parameter Real x = 1 +\n    \nend M;\n',
+    );
+  });
+
+  it('should format the line of a semicolon', async () => {
+    // Valid documents are formatted by the formatter
+    assert.equal(
+      await type('model M\nequation\n  if a then\n    x=1;\n      end if|\nend M;\n', ';'),
+      'model M\nequation\n  if a then\n    x=1;\n  end if;\nend M;\n',
+    );
+    // Broken documents are only re-indented
+    assert.equal(
+      await type('model M\nequation\n  when b then\n  x=1|', ';'),
+      'model M\nequation\n  when b then\n    x=1;',
+    );
+  });
+});
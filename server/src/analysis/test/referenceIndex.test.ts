@@ -0,0 +1,153 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import resolveReference from '../resolveReference';
+import { UnresolvedAbsoluteReference } from '../reference';
+import { ReferenceIndex } from '../referenceIndex';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const TEST_MODEL_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'TestModel.mo');
+const CIRCUIT_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'Circuit.mo');
+
+describe('ReferenceIndex', () => {
+  let project: ModelicaProject;
+  let index: ReferenceIndex;
+
+  const findReferences = (symbols: string[]) => {
+    const declaration = resolveReference(project, new UnresolvedAbsoluteReference(symbols))!;
+    return index
+      .getReferences(declaration)
+      .map(({ document, node }) => [
+        path.relative(TEST_LIBRARY_PATH, document.path),
+        node.startPosition.row,
+        node.startPosition.column,
+      ]);
+  };
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    index = new ReferenceIndex(project);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should find references to components', () => {
+    const circuit = path.join('TestPackage', 'Circuit.mo');
+    const testModel = path.join('TestPackage', 'TestModel.mo');
+    assert.deepEqual(findReferences(['TestLibrary', 'TestPackage', 'TestModel', 'k']), [
+      [circuit, 5, 30],
+      [testModel, 10, 11],
+      [testModel, 12, 25],
+    ]);
+  });
+
+  it('should find references to inherited components', () => {
+    const testModel = path.join('TestPackage', 'TestModel.mo');
+    assert.deepEqual(findReferences(['TestLibrary', 'TestPackage', 'BaseModel', 'y']), [
+      [testModel, 11, 2],
+    ]);
+  });
+
+  it('should find references in modifications', () => {
+    const media = path.join('TestPackage', 'Media.mo');
+    assert.deepEqual(
+      findReferences(['TestLibrary', 'TestPackage', 'Media', 'PartialMedium', 'density']),
+      [
+        [media, 7, 26],
+        [media, 9, 30],
+      ],
+    );
+  });
+
+  it('should find references in named arguments', () => {
+    const testClass = path.join('TestPackage', 'TestClass.mo');
+    const testModel = path.join('TestPackage', 'TestModel.mo');
+    assert.deepEqual(findReferences(['TestLibrary', 'TestPackage', 'TestClass', 'tau']), [
+      [testClass, 7, 21],
+      [testModel, 12, 19],
+    ]);
+  });
+
+  it('should find references to classes', () => {
+    const baseModel = path.join('TestPackage', 'BaseModel.mo');
+    const testModel = path.join('TestPackage', 'TestModel.mo');
+    assert.deepEqual(findReferences(['TestLibrary', 'TestPackage', 'BaseModel']), [
+      [baseModel, 5, 4],
+      [testModel, 5, 10],
+    ]);
+  });
+
+  it('should update when documents change', async () => {
+    const circuit = path.join('TestPackage', 'Circuit.mo');
+    const testModel = path.join('TestPackage', 'TestModel.mo');
+    await project.updateDocument(TEST_MODEL_PATH, '2', {
+      start: { line: 10, character: 11 },
+      end: { line: 10, character: 12 },
+    });
+    assert.deepEqual(findReferences(['TestLibrary', 'TestPackage', 'TestModel', 'k']), [
+      [circuit, 5, 30],
+      [testModel, 12, 25],
+    ]);
+
+    await project.removeDocument(TEST_MODEL_PATH);
+    assert.deepEqual(findReferences(['TestLibrary', 'TestPackage', 'BaseModel', 'y']), []);
+  });
+
+  it('should update references in other documents', async () => {
+    const circuit = path.join('TestPackage', 'Circuit.mo');
+    const testModel = path.join('TestPackage', 'TestModel.mo');
+    await project.updateDocument(CIRCUIT_PATH, 'gain', {
+      start: { line: 5, character: 30 },
+      end: { line: 5, character: 31 },
+    });
+    assert.deepEqual(findReferences(['TestLibrary', 'TestPackage', 'TestModel', 'k']), [
+      [testModel, 10, 11],
+      [testModel, 12, 25],
+    ]);
+
+    // The modification in Circuit resolves once TestModel declares `gain`
+    await project.updateDocument(TEST_MODEL_PATH, 'gain', {
+      start: { line: 6, character: 17 },
+      end: { line: 6, character: 18 },
+    });
+    assert.deepEqual(findReferences(['TestLibrary', 'TestPackage', 'TestModel', 'gain']), [
+      [circuit, 5, 30],
+    ]);
+  });
+});
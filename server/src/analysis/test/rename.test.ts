@@ -0,0 +1,164 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import url from 'node:url';
+import { ModelicaProject, ModelicaLibrary, ModelicaDocument } from '../../project';
+import { initializeParser } from '../../parser';
+import resolveReference from '../resolveReference';
+import { UnresolvedAbsoluteReference } from '../reference';
+import { ReferenceIndex } from '../referenceIndex';
+import { getRenameEdits, prepareRename, RenameError } from '../rename';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const TEST_PACKAGE_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage');
+
+describe('rename', () => {
+  let project: ModelicaProject;
+  let index: ReferenceIndex;
+  let testModel: ModelicaDocument;
+
+  const rename = (symbols: string[], position: LSP.Position, newName: string) => {
+    const declaration = resolveReference(project, new UnresolvedAbsoluteReference(symbols));
+    const edit = getRenameEdits(testModel, position, newName, declaration, index)!;
+
+    // Summarize as [file, line, character] for text edits and [old, new] for renames
+    return edit.documentChanges!.flatMap((change) => {
+      if (LSP.RenameFile.is(change)) {
+        return [[path.basename(change.oldUri), path.basename(change.newUri)]];
+      }
+      const edit = change as LSP.TextDocumentEdit;
+      return edit.edits.map((textEdit) => [
+        path.basename(url.fileURLToPath(edit.textDocument.uri)),
+        textEdit.range.start.line,
+        textEdit.range.start.character,
+      ]);
+    });
+  };
+
+  const load = async (isWorkspace: boolean) => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    index = new ReferenceIndex(project);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, isWorkspace));
+    testModel = (await project.getDocument(path.join(TEST_PACKAGE_PATH, 'TestModel.mo')))!;
+  };
+
+  beforeEach(async () => {
+    await load(true);
+  });
+
+  it('should rename components', () => {
+    const edits = rename(
+      ['TestLibrary', 'TestPackage', 'TestModel', 'k'],
+      { line: 6, character: 17 },
+      'gain',
+    );
+    assert.deepEqual(edits, [
+      ['TestModel.mo', 6, 17],
+      ['TestModel.mo', 10, 11],
+      ['TestModel.mo', 12, 25],
+      ['Circuit.mo', 5, 30],
+    ]);
+  });
+
+  it('should rename named arguments', () => {
+    const edits = rename(
+      ['TestLibrary', 'TestPackage', 'TestClass', 'tau'],
+      { line: 12, character: 19 },
+      'timeConstant',
+    );
+    assert.deepEqual(edits, [
+      ['TestClass.mo', 6, 12],
+      ['TestClass.mo', 7, 21],
+      ['TestModel.mo', 12, 19],
+    ]);
+  });
+
+  it('should rename classes and their files', () => {
+    const edits = rename(
+      ['TestLibrary', 'TestPackage', 'BaseModel'],
+      { line: 5, character: 12 },
+      'Base',
+    );
+    assert.deepEqual(edits, [
+      ['BaseModel.mo', 2, 14],
+      ['BaseModel.mo', 5, 4],
+      ['TestModel.mo', 5, 10],
+      ['package.order', 0, 0],
+      ['BaseModel.mo', 'Base.mo'],
+    ]);
+  });
+
+  it('should rename import aliases', () => {
+    const edits = rename(['TestLibrary', 'Constants'], { line: 4, character: 9 }, 'K');
+    assert.deepEqual(edits, [
+      ['TestModel.mo', 4, 9],
+      ['TestModel.mo', 11, 6],
+    ]);
+  });
+
+  it('should reject invalid names', () => {
+    assert.throws(
+      () =>
+        rename(['TestLibrary', 'TestPackage', 'TestModel', 'k'], { line: 6, character: 17 }, '1k'),
+      RenameError,
+    );
+  });
+
+  it('should not modify read-only libraries', async () => {
+    await load(false);
+
+    const declaration = resolveReference(
+      project,
+      new UnresolvedAbsoluteReference(['TestLibrary', 'TestPackage', 'TestModel', 'k']),
+    );
+    assert.throws(
+      () => prepareRename(testModel, { line: 6, character: 17 }, declaration),
+      RenameError,
+    );
+    assert.throws(
+      () =>
+        rename(
+          ['TestLibrary', 'TestPackage', 'TestModel', 'k'],
+          { line: 6, character: 17 },
+          'gain',
+        ),
+      RenameError,
+    );
+  });
+});
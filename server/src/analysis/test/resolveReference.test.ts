@@ -38,7 +38,9 @@ import assert from 'node:assert/strict';
 import path from 'node:path';
 import { ModelicaProject, ModelicaLibrary, ModelicaDocument } from '../../project';
 import { initializeParser } from '../../parser';
-import resolveReference from '../resolveReference';
+import resolveReference, { resolveTypeDefinition } from '../resolveReference';
+import { resolveDefinition } from '../instanceHierarchy';
+import { ReferenceIndex } from '../referenceIndex';
 import {
   UnresolvedAbsoluteReference,
   UnresolvedRelativeReference,
@@ -49,6 +51,8 @@ import * as TreeSitterUtil from '../../util/tree-sitter';
 const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
 const TEST_CLASS_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'TestClass.mo');
 const CONSTANTS_PATH = path.join(TEST_LIBRARY_PATH, 'Constants.mo');
+const INNER_OUTER_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'InnerOuter.mo');
+const CIRCUIT_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'Circuit.mo');
 
 describe('resolveReference', () => {
   let project: ModelicaProject;
@@ -61,7 +65,7 @@ describe('resolveReference', () => {
 
   it('should resolve absolute references to classes', async () => {
     const unresolved = new UnresolvedAbsoluteReference(['TestLibrary', 'TestPackage', 'TestClass']);
-    const resolved = resolveReference(project, unresolved, 'declaration');
+    const resolved = resolveReference(project, unresolved);
 
     const resolvedDocument = await project.getDocument(TEST_CLASS_PATH);
     assert(resolvedDocument !== undefined);
@@ -83,7 +87,7 @@ describe('resolveReference', () => {
 
   it('should resolve absolute references to variables', async () => {
     const unresolved = new UnresolvedAbsoluteReference(['TestLibrary', 'Constants', 'e']);
-    const resolved = resolveReference(project, unresolved, 'declaration');
+    const resolved = resolveReference(project, unresolved);
 
     const resolvedDocument = (await project.getDocument(CONSTANTS_PATH))!;
 
@@ -109,7 +113,7 @@ describe('resolveReference', () => {
       (node) => node.startPosition.row === 7 && node.startPosition.column === 21,
     )!;
     const unresolved = new UnresolvedRelativeReference(document, unresolvedNode, ['tau']);
-    const resolved = resolveReference(project, unresolved, 'declaration');
+    const resolved = resolveReference(project, unresolved);
 
     // the resolved node is the declaration of tau
     // `input Real tau = 2 * pi;`
@@ -144,7 +148,7 @@ describe('resolveReference', () => {
       'Constants',
       'e',
     ]);
-    const resolved = resolveReference(project, unresolved, 'declaration');
+    const resolved = resolveReference(project, unresolved);
 
     const resolvedDocument = (await project.getDocument(CONSTANTS_PATH))!;
     // Get the node declaring `e`
@@ -165,4 +169,136 @@ describe('resolveReference', () => {
       ),
     );
   });
+
+  it('should not resolve classes of non-package files from sibling files', async () => {
+    // `TestModel.mo` has a sibling `Circuit.mo`, but `TestModel` doesn't contain `Circuit`
+    const unresolved = new UnresolvedAbsoluteReference([
+      'TestLibrary',
+      'TestPackage',
+      'TestModel',
+      'Circuit',
+    ]);
+    const resolved = resolveReference(project, unresolved);
+
+    assert.equal(resolved, null);
+  });
+
+  describe('definitions', () => {
+    const COMPONENT_SYMBOLS = ['TestLibrary', 'TestPackage', 'InnerOuter', 'Component'];
+    const INNER_OUTER_SYMBOLS = ['TestLibrary', 'TestPackage', 'InnerOuter'];
+
+    async function resolveAt(row: number, column: number): Promise<ResolvedReference | null> {
+      const document = (await project.getDocument(INNER_OUTER_PATH))!;
+      const node = document.tree.rootNode.descendantForPosition({ row, column });
+      const unresolved = new UnresolvedRelativeReference(document, node, [node.text]);
+      return resolveReference(project, unresolved);
+    }
+
+    async function declarationAt(
+      row: number,
+      column: number,
+    ): Promise<[number, string[]] | undefined> {
+      const declaration = await resolveAt(row, column);
+      return declaration ? [declaration.node.startPosition.row, declaration.symbols] : undefined;
+    }
+
+    async function definitionAt(
+      row: number,
+      column: number,
+    ): Promise<[number, string[]] | undefined> {
+      const declaration = await resolveAt(row, column);
+      if (!declaration) {
+        return undefined;
+      }
+
+      const definition = resolveDefinition(declaration, new ReferenceIndex(project));
+      return [definition.node.startPosition.row, definition.symbols];
+    }
+
+    //   shared = y;
+    //   ^ 8:4, declared `outer` in line 5, defined `inner` in line 10
+    it('should resolve outer components to the outer declaration', async () => {
+      assert.deepEqual(await declarationAt(8, 4), [5, [...COMPONENT_SYMBOLS, 'shared']]);
+    });
+
+    it('should resolve outer components to the inner definition', async () => {
+      assert.deepEqual(await definitionAt(8, 4), [10, [...INNER_OUTER_SYMBOLS, 'shared']]);
+    });
+
+    //   shared = 1;
+    //   ^ 20:2
+    it('should resolve inner components to the inner declaration and definition', async () => {
+      const inner = [10, [...INNER_OUTER_SYMBOLS, 'shared']];
+      assert.deepEqual(await declarationAt(20, 2), inner);
+      assert.deepEqual(await definitionAt(20, 2), inner);
+    });
+
+    //     outer Real ambient;
+    //                ^ 13:15, only instantiated by `Room`, which isn't an enclosing class
+    it('should search instantiating classes for inner components', async () => {
+      assert.deepEqual(await definitionAt(13, 15), [
+        16,
+        [...INNER_OUTER_SYMBOLS, 'Room', 'ambient'],
+      ]);
+    });
+
+    //   Real y = C.e;
+    //            ^ 6:13
+    it('should resolve import aliases to the imported class', async () => {
+      const resolved = await definitionAt(6, 13);
+      assert.deepEqual(resolved?.[1], ['TestLibrary', 'Constants']);
+    });
+  });
+
+  describe('type definitions', () => {
+    async function resolveTypeAt(
+      row: number,
+      column: number,
+      symbols: string[],
+    ): Promise<string[] | undefined> {
+      const document = (await project.getDocument(CIRCUIT_PATH))!;
+      const node = document.tree.rootNode.descendantForPosition({ row, column });
+      const unresolved = new UnresolvedRelativeReference(document, node, symbols);
+      const resolved = resolveReference(project, unresolved);
+      assert(resolved);
+      return resolveTypeDefinition(resolved)?.symbols;
+    }
+
+    //   v = fast.x + slow.z;
+    //   ^ 10:2
+    it('should follow short class specifiers until a builtin type', async () => {
+      assert.deepEqual(await resolveTypeAt(10, 2, ['v']), [
+        'TestLibrary',
+        'TestPackage',
+        'Circuit',
+        'Voltage',
+      ]);
+    });
+
+    //   v = fast.x + slow.z;
+    //       ^ 10:6
+    it('should follow short class specifiers to classes', async () => {
+      assert.deepEqual(await resolveTypeAt(10, 6, ['fast']), [
+        'TestLibrary',
+        'TestPackage',
+        'TestModel',
+      ]);
+    });
+
+    //   TestModel slow;
+    //             ^ 8:12
+    it('should resolve component declarations to their class', async () => {
+      assert.deepEqual(await resolveTypeAt(8, 12, ['slow']), [
+        'TestLibrary',
+        'TestPackage',
+        'TestModel',
+      ]);
+    });
+
+    //   v = fast.x + slow.z;
+    //                     ^ 10:20
+    it('should not resolve builtin types', async () => {
+      assert.equal(await resolveTypeAt(10, 15, ['slow', 'z']), undefined);
+    });
+  });
 });
@@ -0,0 +1,72 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { initializeParser } from '../../parser';
+import { getSelectionRanges } from '../selectionRange';
+
+const TEST_MODEL = `model M
+  Real x;
+equation
+  der(x) = k * y.z;
+end M;
+`;
+
+describe('getSelectionRanges', () => {
+  it('should expand from identifiers to classes', async () => {
+    const parser = await initializeParser();
+    const document = TextDocument.create('file:///M.mo', 'modelica', 0, TEST_MODEL);
+    const [selectionRange] = getSelectionRanges(parser.parse(TEST_MODEL), [
+      LSP.Position.create(3, 17),
+    ]);
+
+    const texts: string[] = [];
+    for (let range: LSP.SelectionRange | undefined = selectionRange; range; range = range.parent) {
+      texts.push(document.getText(range.range));
+    }
+
+    assert.deepEqual(texts, [
+      'z',
+      'y.z',
+      'k * y.z',
+      'der(x) = k * y.z',
+      'equation\n  der(x) = k * y.z;',
+      TEST_MODEL.slice(0, -2),
+      TEST_MODEL,
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import { getSemanticTokens, SEMANTIC_TOKENS_LEGEND } from '../semanticTokens';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const BOUNCING_BALL_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'BouncingBall.mo');
+
+describe('getSemanticTokens', () => {
+  /**
+   * Decodes the tokens of a document into `text: type [modifiers]` strings.
+   */
+  const getTokens = async (isWorkspace: boolean) => {
+    const parser = await initializeParser();
+    const project = new ModelicaProject(parser);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, isWorkspace));
+    const document = (await project.getDocument(BOUNCING_BALL_PATH))!;
+
+    const builder = new LSP.SemanticTokensBuilder();
+    getSemanticTokens(document, builder);
+    const { data } = builder.build();
+
+    const tokens: string[] = [];
+    let line = 0;
+    let character = 0;
+    for (let i = 0; i < data.length; i += 5) {
+      const [deltaLine, deltaStart, length, type, modifiers] = data.slice(i, i + 5);
+      line += deltaLine;
+      character = deltaLine === 0 ? character + deltaStart : deltaStart;
+
+      const text = document.getText(LSP.Range.create(line, character, line, character + length));
+      const modifierNames = SEMANTIC_TOKENS_LEGEND.tokenModifiers.filter(
+        (_, bit) => modifiers & (1 << bit),
+      );
+      tokens.push(`${text}: ${SEMANTIC_TOKENS_LEGEND.tokenTypes[type]} [${modifierNames}]`);
+    }
+    return tokens;
+  };
+
+  it('should classify declarations and references', async () => {
+    const tokens = await getTokens(true);
+    assert.deepEqual(tokens.slice(0, 8), [
+      'TestLibrary: namespace []',
+      'TestPackage: namespace []',
+      'BouncingBall: class [declaration]',
+      'Real: type [defaultLibrary]',
+      'e: variable [declaration,parameter]',
+      'Real: type [defaultLibrary]',
+      'h: variable [declaration]',
+      'Real: type [defaultLibrary]',
+    ]);
+    assert(tokens.includes('e: variable [parameter]'));
+    assert(tokens.includes('bounces: variable []'));
+    assert.equal(tokens.at(-1), 'BouncingBall: class []');
+  });
+
+  it('should mark library symbols as read-only', async () => {
+    const tokens = await getTokens(false);
+    assert(tokens.includes('TestLibrary: namespace [readonly]'));
+    assert(tokens.includes('e: variable [readonly,parameter]'));
+  });
+});
@@ -0,0 +1,103 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import { getSignatureHelp } from '../signatureHelp';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const TEST_MODEL_PATH = path.join(TEST_LIBRARY_PATH, 'TestPackage', 'TestModel.mo');
+
+const TEST_CLASS_SIGNATURE =
+  'TestLibrary.TestPackage.TestClass(' +
+  'Real twoE = 2 * Constants.e, Real tau = 2 * pi, Real notTau = tau / twoE)';
+
+describe('getSignatureHelp', () => {
+  let project: ModelicaProject;
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should show the inputs of a function', async () => {
+    // z = TestClass(x, tau = k);
+    //               ^ 12:16
+    const document = (await project.getDocument(TEST_MODEL_PATH))!;
+    const signatureHelp = getSignatureHelp(document, { line: 12, character: 16 })!;
+    const signature = signatureHelp.signatures[0];
+
+    assert.equal(signature.label, TEST_CLASS_SIGNATURE);
+    assert.deepEqual(
+      signature.parameters!.map(({ label }) =>
+        TEST_CLASS_SIGNATURE.slice(...(label as [number, number])),
+      ),
+      ['Real twoE = 2 * Constants.e', 'Real tau = 2 * pi', 'Real notTau = tau / twoE'],
+    );
+    assert.equal(signatureHelp.activeParameter, 0);
+  });
+
+  it('should highlight named arguments', async () => {
+    // z = TestClass(x, tau = k);
+    //                     ^ 12:22
+    const document = (await project.getDocument(TEST_MODEL_PATH))!;
+    const signatureHelp = getSignatureHelp(document, { line: 12, character: 22 })!;
+
+    assert.equal(signatureHelp.activeParameter, 1);
+  });
+
+  it('should work while typing the arguments', async () => {
+    const document = (await project.getDocument(TEST_MODEL_PATH))!;
+    document.update('TestClass(x, ', {
+      start: { line: 12, character: 6 },
+      end: { line: 12, character: 27 },
+    });
+    const signatureHelp = getSignatureHelp(document, { line: 12, character: 19 })!;
+
+    assert.equal(signatureHelp.signatures[0].label, TEST_CLASS_SIGNATURE);
+    assert.equal(signatureHelp.activeParameter, 1);
+  });
+
+  it('should ignore positions outside of calls', async () => {
+    // z = TestClass(x, tau = k);
+    //   ^ 12:4
+    const document = (await project.getDocument(TEST_MODEL_PATH))!;
+
+    assert.equal(getSignatureHelp(document, { line: 12, character: 4 }), null);
+  });
+});
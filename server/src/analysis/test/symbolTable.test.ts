@@ -0,0 +1,94 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import { SymbolTable } from '../symbolTable';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+
+describe('SymbolTable', () => {
+  let project: ModelicaProject;
+  let symbolTable: SymbolTable;
+
+  const find = (query: string) =>
+    symbolTable.find(query).map(({ name, kind, containerName }) => [containerName, name, kind]);
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    symbolTable = new SymbolTable(project);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should find classes by simple name', () => {
+    assert.deepEqual(find('BaseModel'), [
+      ['TestLibrary.TestPackage', 'BaseModel', LSP.SymbolKind.Class],
+    ]);
+  });
+
+  it('should match fuzzily on qualified names', () => {
+    assert.deepEqual(find('TestPack.BsMdl'), [
+      ['TestLibrary.TestPackage', 'BaseModel', LSP.SymbolKind.Class],
+    ]);
+    assert.deepEqual(find('Const.pi'), [['TestLibrary.Constants', 'pi', LSP.SymbolKind.Constant]]);
+  });
+
+  it('should only find components of top-level classes', () => {
+    assert.deepEqual(find('InnerOuter.shared'), [
+      ['TestLibrary.TestPackage.InnerOuter', 'shared', LSP.SymbolKind.Field],
+    ]);
+    assert.deepEqual(find('Sensor'), [
+      ['TestLibrary.TestPackage.InnerOuter', 'Sensor', LSP.SymbolKind.Class],
+    ]);
+    assert.deepEqual(find('ambient'), []);
+  });
+
+  it('should rank better matches first', () => {
+    const results = find('Test');
+    assert.deepEqual(results.slice(0, 2), [
+      [undefined, 'TestLibrary', LSP.SymbolKind.Package],
+      ['TestLibrary', 'TestPackage', LSP.SymbolKind.Package],
+    ]);
+  });
+
+  it('should forget removed documents', async () => {
+    await project.removeDocument(path.join(TEST_LIBRARY_PATH, 'TestPackage', 'BaseModel.mo'));
+    assert.deepEqual(find('BaseModel'), []);
+  });
+});
@@ -0,0 +1,96 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { ModelicaProject, ModelicaLibrary } from '../../project';
+import { initializeParser } from '../../parser';
+import resolveReference from '../resolveReference';
+import { UnresolvedAbsoluteReference } from '../reference';
+import { InheritanceIndex } from '../inheritanceIndex';
+import { createTypeHierarchyItem, getSubtypes, getSupertypes } from '../typeHierarchy';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, 'TestLibrary');
+const MEDIA = ['TestLibrary', 'TestPackage', 'Media'];
+
+describe('typeHierarchy', () => {
+  let project: ModelicaProject;
+  let index: InheritanceIndex;
+
+  const prepare = (symbols: string[]) =>
+    createTypeHierarchyItem(resolveReference(project, new UnresolvedAbsoluteReference(symbols))!);
+  const names = (items: LSP.TypeHierarchyItem[]) => items.map((item) => item.name);
+
+  beforeEach(async () => {
+    const parser = await initializeParser();
+    project = new ModelicaProject(parser);
+    index = new InheritanceIndex(project);
+    project.addLibrary(await ModelicaLibrary.load(project, TEST_LIBRARY_PATH, true));
+  });
+
+  it('should create items for classes', () => {
+    const item = prepare([...MEDIA, 'HumidAir']);
+    assert.equal(item.name, 'HumidAir');
+    assert.equal(item.kind, LSP.SymbolKind.Package);
+    assert.equal(item.detail, MEDIA.join('.'));
+    assert.deepEqual(item.selectionRange, LSP.Range.create(10, 10, 10, 18));
+  });
+
+  it('should find supertypes of extends clauses and short classes', () => {
+    const humidAir = prepare([...MEDIA, 'HumidAir']);
+    const [air] = getSupertypes(project, humidAir);
+    assert.equal(air.name, 'Air');
+    assert.deepEqual(names(getSupertypes(project, air)), ['PartialMedium']);
+    assert.deepEqual(getSupertypes(project, getSupertypes(project, air)[0]), []);
+  });
+
+  it('should find supertypes of class extends', () => {
+    const wall = prepare([...MEDIA, 'Tank', 'Wall']);
+    const supertypes = getSupertypes(project, wall);
+    assert.deepEqual(
+      supertypes.map((item) => item.detail),
+      [[...MEDIA, 'PartialTank'].join('.')],
+    );
+  });
+
+  it('should find subtypes', () => {
+    const partialMedium = prepare([...MEDIA, 'PartialMedium']);
+    assert.deepEqual(names(getSubtypes(project, partialMedium, index)), ['Water', 'Air']);
+    assert.deepEqual(names(getSubtypes(project, prepare([...MEDIA, 'PartialTank']), index)), [
+      'Tank',
+    ]);
+  });
+});
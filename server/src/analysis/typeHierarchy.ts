@@ -0,0 +1,74 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+
+import { ModelicaProject } from '../project';
+import { createHierarchyItem, resolveHierarchyItem } from './hierarchyItem';
+import { getSuperclasses, InheritanceIndex } from './inheritanceIndex';
+import { ResolvedReference } from './reference';
+
+/**
+ * Creates a type hierarchy item for a class.
+ *
+ * @param classRef the resolved class
+ * @returns the type hierarchy item
+ */
+export function createTypeHierarchyItem(classRef: ResolvedReference): LSP.TypeHierarchyItem {
+  return createHierarchyItem(classRef, LSP.SymbolKind.Class);
+}
+
+/**
+ * Finds the direct superclasses of the class of a type hierarchy item.
+ */
+export function getSupertypes(
+  project: ModelicaProject,
+  item: LSP.TypeHierarchyItem,
+): LSP.TypeHierarchyItem[] {
+  const classRef = resolveHierarchyItem(project, item);
+  return classRef ? getSuperclasses(classRef).map(createTypeHierarchyItem) : [];
+}
+
+/**
+ * Finds the classes directly extending the class of a type hierarchy item.
+ */
+export function getSubtypes(
+  project: ModelicaProject,
+  item: LSP.TypeHierarchyItem,
+  index: InheritanceIndex,
+): LSP.TypeHierarchyItem[] {
+  const classRef = resolveHierarchyItem(project, item);
+  return classRef ? index.getSubclasses(classRef).map(createTypeHierarchyItem) : [];
+}
@@ -47,22 +47,195 @@ import * as fsSync from 'node:fs';
 import * as url from 'node:url';
 
 import {
+  createCallHierarchyItem,
+  getIncomingCalls,
+  getOutgoingCalls,
+  isFunction,
+} from './analysis/callHierarchy';
+import { getCodeLenses, getSimulationScript, resolveCodeLens } from './analysis/codeLens';
+import { getCompletions } from './analysis/completion';
+import { getSyntaxDiagnostics } from './analysis/diagnostics';
+import { getColorPresentations, getDocumentColors } from './analysis/documentColor';
+import { getDocumentHighlights } from './analysis/documentHighlight';
+import { getDocumentLinkDiagnostics, getDocumentLinks } from './analysis/documentLink';
+import { getFoldingRanges } from './analysis/folding';
+import { FormattingOptions, getFormattingEdits } from './analysis/formatting';
+import { getHoverContents } from './analysis/hover';
+import { getImplementations, InheritanceIndex } from './analysis/inheritanceIndex';
+import { getInlayHints, InlayHintOptions } from './analysis/inlayHints';
+import { resolveDefinition } from './analysis/instanceHierarchy';
+import { getLinkedEditingRanges } from './analysis/linkedEditingRange';
+import { getOnTypeFormattingEdits } from './analysis/onTypeFormatting';
+import {
+  ResolvedReference,
   UnresolvedAbsoluteReference,
   UnresolvedReference,
   UnresolvedRelativeReference,
 } from './analysis/reference';
-import resolveReference from './analysis/resolveReference';
-import { ModelicaDocument, ModelicaLibrary, ModelicaProject } from './project';
+import { getDeclarationIdentifier, ReferenceIndex, toLocation } from './analysis/referenceIndex';
+import { getRenameEdits, prepareRename, RenameError } from './analysis/rename';
+import resolveReference, {
+  resolveTypeDefinition,
+  variableRefToClassRef,
+} from './analysis/resolveReference';
+import { getSelectionRanges } from './analysis/selectionRange';
+import { getSemanticTokens } from './analysis/semanticTokens';
+import { SymbolTable } from './analysis/symbolTable';
+import { createTypeHierarchyItem, getSubtypes, getSupertypes } from './analysis/typeHierarchy';
+import { getSignatureHelp } from './analysis/signatureHelp';
+import { DocumentChangeEvent, ModelicaDocument, ModelicaLibrary, ModelicaProject } from './project';
 import { uriToPath } from './util';
 import * as TreeSitterUtil from './util/tree-sitter';
-import { getAllDeclarationsInTree } from './util/declarations';
+import { getDocumentSymbols } from './util/declarations';
 import { logger } from './util/logger';
 
 export default class Analyzer {
   #project: ModelicaProject;
+  #referenceIndex: ReferenceIndex;
+  #inheritanceIndex: InheritanceIndex;
+  #symbolTable: SymbolTable;
+  #semanticTokensBuilders = new Map<LSP.DocumentUri, LSP.SemanticTokensBuilder>();
+  /**
+   * The versions of the documents opened in the editor, as reported by the
+   * client.
+   */
+  #openDocuments = new Map<LSP.DocumentUri, number>();
+  #diagnostics = new Map<LSP.DocumentUri, LSP.Diagnostic[]>();
+  /**
+   * Counts changes of all documents, which can fix or break links in other
+   * documents.
+   */
+  #documentGeneration = 0;
+  #onDidChangeDiagnostics = new LSP.Emitter<LSP.PublishDiagnosticsParams>();
 
   public constructor(parser: Parser) {
     this.#project = new ModelicaProject(parser);
+    this.#referenceIndex = new ReferenceIndex(this.#project);
+    this.#inheritanceIndex = new InheritanceIndex(this.#project);
+    this.#symbolTable = new SymbolTable(this.#project);
+    this.#project.onDidChangeDocument(this.onDidChangeDocument.bind(this));
+  }
+
+  /**
+   * Fires when the syntax or link diagnostics of a document change. Documents of
+   * read-only libraries are only reported while they are open.
+   */
+  public get onDidChangeDiagnostics(): LSP.Event<LSP.PublishDiagnosticsParams> {
+    return this.#onDidChangeDiagnostics.event;
+  }
+
+  /**
+   * Returns the current syntax and link diagnostics of all reported documents.
+   */
+  public getAllDiagnostics(): LSP.PublishDiagnosticsParams[] {
+    return [...this.#diagnostics].map(([uri, diagnostics]) => ({ uri, diagnostics }));
+  }
+
+  /**
+   * Computes the diagnostics of a document for a pull request.
+   *
+   * @param uri the document
+   * @param previousResultId the result ID of the last report of the client
+   * @returns a full report, or an unchanged report if the result ID is the
+   *     same
+   */
+  public async getDocumentDiagnosticReport(
+    uri: LSP.DocumentUri,
+    previousResultId?: string,
+  ): Promise<LSP.DocumentDiagnosticReport> {
+    const document = await this.#project.getDocument(uriToPath(uri));
+    if (!document) {
+      return { kind: LSP.DocumentDiagnosticReportKind.Full, items: [] };
+    }
+
+    const resultId = this.getDiagnosticResultId(document);
+    if (resultId === previousResultId) {
+      return { kind: LSP.DocumentDiagnosticReportKind.Unchanged, resultId };
+    }
+
+    return {
+      kind: LSP.DocumentDiagnosticReportKind.Full,
+      resultId,
+      items: computeDiagnostics(document),
+    };
+  }
+
+  /**
+   * Computes the diagnostics of all documents of workspace libraries for a
+   * pull request.
+   *
+   * @param previousResultIds the result IDs of the last reports of the client
+   * @returns one report per document; documents whose result ID is the same
+   *     are reported as unchanged
+   */
+  public getWorkspaceDiagnosticReport(
+    previousResultIds: LSP.PreviousResultId[],
+  ): LSP.WorkspaceDiagnosticReport {
+    const previous = new Map(previousResultIds.map(({ uri, value }) => [uri, value]));
+    const items: LSP.WorkspaceDocumentDiagnosticReport[] = [];
+
+    for (const library of this.#project.libraries) {
+      if (!library.isWorkspace) {
+        continue;
+      }
+
+      for (const document of library.documents.values()) {
+        const { uri } = document;
+        const resultId = this.getDiagnosticResultId(document);
+        const version = this.#openDocuments.get(uri) ?? null;
+        items.push(
+          previous.get(uri) === resultId
+            ? { kind: LSP.DocumentDiagnosticReportKind.Unchanged, uri, version, resultId }
+            : {
+                kind: LSP.DocumentDiagnosticReportKind.Full,
+                uri,
+                version,
+                resultId,
+                items: computeDiagnostics(document),
+              },
+        );
+      }
+    }
+
+    return { items };
+  }
+
+  /**
+   * Returns an ID that changes with the diagnostics of a document. Any change
+   * in the project can fix or break links of the document, so the ID changes
+   * with every change of any document.
+   */
+  private getDiagnosticResultId(document: ModelicaDocument): string {
+    return `${this.#documentGeneration}.${document.version}`;
+  }
+
+  /**
+   * Marks a document as opened in the editor.
+   *
+   * @param uri uri to the opened document
+   * @param version the version of the document in the editor
+   */
+  public async openDocument(uri: LSP.DocumentUri, version: number): Promise<void> {
+    this.#openDocuments.set(uri, version);
+
+    const document = await this.#project.getDocument(uriToPath(uri));
+    if (document) {
+      this.updateDiagnostics(document);
+    }
+  }
+
+  /**
+   * Marks a document as closed in the editor.
+   *
+   * @param uri uri to the closed document
+   */
+  public async closeDocument(uri: LSP.DocumentUri): Promise<void> {
+    this.#openDocuments.delete(uri);
+
+    const document = await this.#project.getDocument(uriToPath(uri), { load: false });
+    if (document) {
+      this.updateDiagnostics(document);
+    }
   }
 
   /**
@@ -116,12 +289,18 @@ export default class Analyzer {
    * @param uri uri to document to update
    * @param text the modification
    * @param range range to update, or `undefined` to replace the whole file
+   * @param version the new version of the document in the editor, if opened
    */
   public async updateDocument(
     uri: LSP.DocumentUri,
     text: string,
     range?: LSP.Range,
+    version?: number,
   ): Promise<void> {
+    if (version !== undefined && this.#openDocuments.has(uri)) {
+      this.#openDocuments.set(uri, version);
+    }
+
     await this.#project.updateDocument(uriToPath(uri), text, range);
   }
 
@@ -133,16 +312,69 @@ export default class Analyzer {
    */
   public removeDocument(uri: LSP.DocumentUri): void {
     this.#project.removeDocument(uriToPath(uri));
+    this.#semanticTokensBuilders.delete(uri);
+  }
+
+  private onDidChangeDocument({ document, kind }: DocumentChangeEvent): void {
+    this.#documentGeneration++;
+
+    if (kind === 'removed') {
+      this.setDiagnostics(document.uri, null);
+      return;
+    }
+
+    this.updateDiagnostics(document);
+  }
+
+  private updateDiagnostics(document: ModelicaDocument): void {
+    const isReported =
+      document.library?.isWorkspace !== false || this.#openDocuments.has(document.uri);
+    if (!isReported) {
+      this.setDiagnostics(document.uri, null);
+      return;
+    }
+
+    // Broken links are only re-checked when their document changes
+    this.setDiagnostics(document.uri, computeDiagnostics(document));
   }
 
   /**
-   * Get all symbol declarations in the given file. This is used for generating an outline.
-   *
-   * TODO: convert to DocumentSymbol[] which is a hierarchy of symbols found in a given text document.
+   * Stores the diagnostics of a document and notifies listeners if they
+   * changed. `null` clears the diagnostics of the document.
+   */
+  private setDiagnostics(uri: LSP.DocumentUri, diagnostics: LSP.Diagnostic[] | null): void {
+    const previous = this.#diagnostics.get(uri);
+    if (diagnostics === null) {
+      this.#diagnostics.delete(uri);
+    } else {
+      this.#diagnostics.set(uri, diagnostics);
+    }
+
+    if (previous?.length || diagnostics?.length) {
+      this.#onDidChangeDiagnostics.fire({ uri, diagnostics: diagnostics ?? [] });
+    }
+  }
+
+  /**
+   * Get the hierarchy of symbols in the given file. This is used for
+   * generating an outline.
+   */
+  public async getDocumentSymbols(uri: string): Promise<LSP.DocumentSymbol[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    const tree = document?.tree;
+
+    if (!tree?.rootNode) {
+      return [];
+    }
+
+    return getDocumentSymbols(tree);
+  }
+
+  /**
+   * Computes the folding ranges of the given file.
    */
-  public async getDeclarationsForUri(uri: string): Promise<LSP.SymbolInformation[]> {
-    // TODO: convert to DocumentSymbol[] which is a hierarchy of symbols found
-    // in a given text document.
+  public async getFoldingRanges(uri: LSP.DocumentUri): Promise<LSP.FoldingRange[]> {
     const path = uriToPath(uri);
     const document = await this.#project.getDocument(path);
     const tree = document?.tree;
@@ -151,7 +383,202 @@ export default class Analyzer {
       return [];
     }
 
-    return getAllDeclarationsInTree(tree, uri);
+    return getFoldingRanges(tree);
+  }
+
+  /**
+   * Computes the selection ranges at the given positions of the given file.
+   */
+  public async getSelectionRanges(
+    uri: LSP.DocumentUri,
+    positions: LSP.Position[],
+  ): Promise<LSP.SelectionRange[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    const tree = document?.tree;
+
+    if (!tree?.rootNode) {
+      return [];
+    }
+
+    return getSelectionRanges(tree, positions);
+  }
+
+  /**
+   * Links the name of the class at the given position of the given file to the
+   * name in its `end` clause.
+   */
+  public async getLinkedEditingRanges(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.LinkedEditingRanges | null> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    const tree = document?.tree;
+
+    if (!tree?.rootNode) {
+      return null;
+    }
+
+    return getLinkedEditingRanges(tree, position);
+  }
+
+  /**
+   * Computes the edits formatting the given file, or only the given range of
+   * it. Files with syntax errors are left unchanged.
+   */
+  public async getFormattingEdits(
+    uri: LSP.DocumentUri,
+    options: FormattingOptions,
+    range?: LSP.Range,
+  ): Promise<LSP.TextEdit[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+
+    if (!document?.tree?.rootNode) {
+      return [];
+    }
+
+    return withErrorLogging(
+      () => getFormattingEdits(document.tree, document.getText(), options, range),
+      [],
+    );
+  }
+
+  /**
+   * Computes the edits formatting the given file after a character was typed
+   * at the given position.
+   */
+  public async getOnTypeFormattingEdits(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+    ch: string,
+    options: FormattingOptions,
+  ): Promise<LSP.TextEdit[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+
+    if (!document?.tree?.rootNode) {
+      return [];
+    }
+
+    return withErrorLogging(
+      () => getOnTypeFormattingEdits(document.tree, document.getText(), position, ch, options),
+      [],
+    );
+  }
+
+  /**
+   * Computes the inlay hints in a range of the given file.
+   */
+  public async getInlayHints(
+    uri: LSP.DocumentUri,
+    range: LSP.Range,
+    options: InlayHintOptions,
+  ): Promise<LSP.InlayHint[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document?.tree?.rootNode) {
+      return [];
+    }
+
+    return withErrorLogging(() => getInlayHints(document, range, options), []);
+  }
+
+  /**
+   * Finds the colors of the graphical annotations in the given file.
+   */
+  public async getDocumentColors(uri: LSP.DocumentUri): Promise<LSP.ColorInformation[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document?.tree?.rootNode) {
+      return [];
+    }
+
+    return withErrorLogging(() => getDocumentColors(document), []);
+  }
+
+  /**
+   * Writes a color picked for a range of the given file.
+   */
+  public async getColorPresentations(
+    uri: LSP.DocumentUri,
+    color: LSP.Color,
+    range: LSP.Range,
+  ): Promise<LSP.ColorPresentation[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document) {
+      return [];
+    }
+
+    return withErrorLogging(() => getColorPresentations(document, color, range), []);
+  }
+
+  /**
+   * Finds the links to classes and resource files in the given file.
+   */
+  public async getDocumentLinks(uri: LSP.DocumentUri): Promise<LSP.DocumentLink[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document?.tree?.rootNode) {
+      return [];
+    }
+
+    return withErrorLogging(() => getDocumentLinks(document), []);
+  }
+
+  /**
+   * Computes the unresolved code lenses of the given file.
+   */
+  public async getCodeLenses(uri: LSP.DocumentUri): Promise<LSP.CodeLens[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document?.tree?.rootNode) {
+      return [];
+    }
+
+    return withErrorLogging(() => getCodeLenses(document), []);
+  }
+
+  /**
+   * Adds the command to a code lens, counting usages and subclasses.
+   */
+  public resolveCodeLens(lens: LSP.CodeLens): LSP.CodeLens {
+    return withErrorLogging(
+      () => resolveCodeLens(this.#project, lens, this.#referenceIndex, this.#inheritanceIndex),
+      lens,
+    );
+  }
+
+  /**
+   * Writes the simulation script of a model with an `experiment` annotation.
+   * Scripts of models in read-only libraries are stored in the first
+   * workspace.
+   *
+   * @param symbols the absolute path of the model
+   * @returns the URI and content of the script, or `null` if the model wasn't
+   *     found or has no `experiment` annotation
+   */
+  public getSimulationScript(symbols: string[]): { uri: LSP.DocumentUri; text: string } | null {
+    return withErrorLogging(() => {
+      const model = resolveReference(
+        this.#project,
+        new UnresolvedAbsoluteReference(symbols, 'class'),
+      );
+      const workspace = this.#project.libraries.find((library) => library.isWorkspace);
+      return model ? getSimulationScript(model, workspace?.path) : null;
+    }, null);
+  }
+
+  /**
+   * Searches all classes and components in the project by (qualified) name.
+   *
+   * @param query the search query
+   * @returns the matching symbols
+   */
+  public findWorkspaceSymbols(query: string): LSP.SymbolInformation[] {
+    return withErrorLogging(() => this.#symbolTable.find(query), []);
   }
 
   /**
@@ -166,6 +593,416 @@ export default class Analyzer {
     uri: LSP.DocumentUri,
     position: LSP.Position,
   ): Promise<LSP.LocationLink | null> {
+    const result = await this.resolveSymbolAt(uri, position);
+    if (!result) {
+      return null;
+    }
+
+    const link = TreeSitterUtil.createLocationLink(result.document, result.node);
+    logger.debug(`Found declaration of ${result.symbols.join('.')}: `, link);
+    return link;
+  }
+
+  /**
+   * Finds the definition of the symbol at the given position. Unlike the
+   * declaration, the definition of an `outer` component is the matching
+   * `inner` component of a class instantiating it.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns a {@link LSP.LocationLink} to the symbol's definition, or `null`
+   *     if not found.
+   */
+  public async findDefinition(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.LocationLink | null> {
+    const declaration = await this.resolveSymbolAt(uri, position);
+    if (!declaration) {
+      return null;
+    }
+
+    return withErrorLogging(() => {
+      const result = resolveDefinition(declaration, this.#referenceIndex);
+      const link = TreeSitterUtil.createLocationLink(result.document, result.node);
+      logger.debug(`Found definition of ${result.symbols.join('.')}: `, link);
+      return link;
+    }, null);
+  }
+
+  /**
+   * Finds the class definition of the type of the symbol at the given
+   * position.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns a {@link LSP.LocationLink} to the type's class, or `null` if not
+   *     found or the type is builtin.
+   */
+  public async findTypeDefinition(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.LocationLink | null> {
+    const result = await this.resolveSymbolAt(uri, position);
+    if (!result) {
+      return null;
+    }
+
+    return withErrorLogging(() => {
+      const type = resolveTypeDefinition(result);
+      if (!type) {
+        logger.debug(`Didn't find type definition of ${result.symbols.join('.')}`);
+        return null;
+      }
+
+      const link = TreeSitterUtil.createLocationLink(type.document, type.node);
+      logger.debug(`Found type definition of ${result.symbols.join('.')}: `, link);
+      return link;
+    }, null);
+  }
+
+  /**
+   * Describes the symbol at the given position.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns a {@link LSP.Hover} with the signature and description of the
+   *     symbol, or `null` if there is no symbol at the position.
+   */
+  public async getHover(uri: LSP.DocumentUri, position: LSP.Position): Promise<LSP.Hover | null> {
+    const result = await this.resolveSymbolAt(uri, position);
+    if (!result) {
+      return null;
+    }
+
+    return withErrorLogging(() => {
+      const contents = getHoverContents(result);
+      if (!contents) {
+        logger.debug(`Couldn't describe ${result.symbols.join('.')}`);
+        return null;
+      }
+
+      return { contents };
+    }, null);
+  }
+
+  /**
+   * Collects the completion candidates at the given position.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns the completion items, or `[]` if the document is not loaded.
+   */
+  public async getCompletions(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.CompletionItem[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document) {
+      logger.warn(`Couldn't complete: document not loaded.`);
+      return [];
+    }
+
+    return withErrorLogging(() => getCompletions(document, position), []);
+  }
+
+  /**
+   * Collects the signature of the function call or record constructor
+   * surrounding the given position.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns the signature help, or `null` if the cursor is not inside a call.
+   */
+  public async getSignatureHelp(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.SignatureHelp | null> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document) {
+      logger.warn(`Couldn't get signature help: document not loaded.`);
+      return null;
+    }
+
+    return withErrorLogging(() => getSignatureHelp(document, position), null);
+  }
+
+  /**
+   * Finds the implementations of the symbol at the given position, i.e. the
+   * classes extending a `partial` class and the redeclarations of a
+   * `replaceable` class or component.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns the locations of the implementations
+   */
+  public async findImplementations(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.Location[]> {
+    const declaration = await this.resolveSymbolAt(uri, position);
+    if (!declaration) {
+      return [];
+    }
+
+    return withErrorLogging(() => getImplementations(declaration, this.#inheritanceIndex), []);
+  }
+
+  /**
+   * Prepares the type hierarchy of the class at the given position, or of the
+   * type of the component at the given position.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns the type hierarchy item of the class, or `null` if not found
+   */
+  public async prepareTypeHierarchy(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.TypeHierarchyItem[] | null> {
+    const declaration = await this.resolveSymbolAt(uri, position);
+    if (!declaration) {
+      return null;
+    }
+
+    return withErrorLogging(() => {
+      const classRef =
+        declaration.kind === 'variable' ? variableRefToClassRef(declaration) : declaration;
+      return classRef ? [createTypeHierarchyItem(classRef)] : null;
+    }, null);
+  }
+
+  /**
+   * Finds the direct superclasses of a type hierarchy item.
+   */
+  public getSupertypes(item: LSP.TypeHierarchyItem): LSP.TypeHierarchyItem[] {
+    return withErrorLogging(() => getSupertypes(this.#project, item), []);
+  }
+
+  /**
+   * Finds the classes directly extending a type hierarchy item.
+   */
+  public getSubtypes(item: LSP.TypeHierarchyItem): LSP.TypeHierarchyItem[] {
+    return withErrorLogging(() => getSubtypes(this.#project, item, this.#inheritanceIndex), []);
+  }
+
+  /**
+   * Prepares the call hierarchy of the function at the given position.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns the call hierarchy item of the function, or `null` if there is no
+   *     function at the position
+   */
+  public async prepareCallHierarchy(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.CallHierarchyItem[] | null> {
+    const declaration = await this.resolveSymbolAt(uri, position);
+    if (!declaration || !isFunction(declaration)) {
+      return null;
+    }
+
+    return [createCallHierarchyItem(declaration)];
+  }
+
+  /**
+   * Finds the classes calling the function of a call hierarchy item.
+   */
+  public getIncomingCalls(item: LSP.CallHierarchyItem): LSP.CallHierarchyIncomingCall[] {
+    return withErrorLogging(() => getIncomingCalls(this.#project, item, this.#referenceIndex), []);
+  }
+
+  /**
+   * Finds the functions called by the class of a call hierarchy item.
+   */
+  public getOutgoingCalls(item: LSP.CallHierarchyItem): LSP.CallHierarchyOutgoingCall[] {
+    return withErrorLogging(() => getOutgoingCalls(this.#project, item), []);
+  }
+
+  /**
+   * Finds all references to the symbol at the given position.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @param includeDeclaration `true` to include the declaration of the symbol
+   * @returns the locations of all references to the symbol
+   */
+  public async findReferences(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+    includeDeclaration: boolean,
+  ): Promise<LSP.Location[]> {
+    const declaration = await this.resolveSymbolAt(uri, position);
+    if (!declaration) {
+      return [];
+    }
+
+    return withErrorLogging(() => {
+      const locations = this.#referenceIndex.getReferences(declaration).map(toLocation);
+      const identifier = getDeclarationIdentifier(declaration);
+      if (includeDeclaration && identifier) {
+        locations.unshift(toLocation({ document: declaration.document, node: identifier }));
+      }
+      return locations;
+    }, []);
+  }
+
+  /**
+   * Computes the semantic tokens of a document.
+   *
+   * @param uri the opened document
+   * @returns the tokens
+   */
+  public async getSemanticTokens(uri: LSP.DocumentUri): Promise<LSP.SemanticTokens> {
+    const builder = new LSP.SemanticTokensBuilder();
+    this.#semanticTokensBuilders.set(uri, builder);
+
+    await this.pushSemanticTokens(uri, builder);
+    return builder.build();
+  }
+
+  /**
+   * Computes the changes to the semantic tokens of a document.
+   *
+   * @param uri the opened document
+   * @param previousResultId the result id of the previous tokens
+   * @returns the edits to the previous tokens, or all tokens if the previous
+   *     result is unknown.
+   */
+  public async getSemanticTokensDelta(
+    uri: LSP.DocumentUri,
+    previousResultId: string,
+  ): Promise<LSP.SemanticTokens | LSP.SemanticTokensDelta> {
+    const builder = this.#semanticTokensBuilders.get(uri);
+    if (!builder) {
+      return this.getSemanticTokens(uri);
+    }
+
+    builder.previousResult(previousResultId);
+    await this.pushSemanticTokens(uri, builder);
+    return builder.buildEdits();
+  }
+
+  private async pushSemanticTokens(
+    uri: LSP.DocumentUri,
+    builder: LSP.SemanticTokensBuilder,
+  ): Promise<void> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document) {
+      logger.warn(`Couldn't get semantic tokens: document not loaded.`);
+      return;
+    }
+
+    withErrorLogging(() => getSemanticTokens(document, builder), undefined);
+  }
+
+  /**
+   * Finds all occurrences of the symbol at the given position in its document.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns the highlights of the symbol
+   */
+  public async getDocumentHighlights(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.DocumentHighlight[]> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document) {
+      logger.warn(`Couldn't get highlights: document not loaded.`);
+      return [];
+    }
+
+    const declaration = await this.resolveSymbolAt(uri, position);
+    if (!declaration) {
+      return [];
+    }
+
+    return withErrorLogging(() => getDocumentHighlights(document, declaration), []);
+  }
+
+  /**
+   * Checks if the symbol at the given position can be renamed.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns the range of the symbol, or `null` if it can't be renamed.
+   * @throws ResponseError if the symbol belongs to a read-only library
+   */
+  public async prepareRename(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<LSP.PrepareRenameResult | null> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document) {
+      logger.warn(`Couldn't prepare rename: document not loaded.`);
+      return null;
+    }
+
+    const declaration = await this.resolveSymbolAt(uri, position);
+    try {
+      return prepareRename(document, position, declaration);
+    } catch (e: unknown) {
+      if (e instanceof RenameError) {
+        throw new LSP.ResponseError(LSP.LSPErrorCodes.RequestFailed, e.message);
+      }
+      logException(e);
+      return null;
+    }
+  }
+
+  /**
+   * Renames the symbol at the given position.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @param newName the new name of the symbol
+   * @returns the edit renaming all occurrences, or `null` if there is no
+   *     symbol at the position.
+   * @throws ResponseError if the new name is invalid or the rename would
+   *     modify a read-only library
+   */
+  public async rename(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+    newName: string,
+  ): Promise<LSP.WorkspaceEdit | null> {
+    const path = uriToPath(uri);
+    const document = await this.#project.getDocument(path);
+    if (!document) {
+      logger.warn(`Couldn't rename: document not loaded.`);
+      return null;
+    }
+
+    const declaration = await this.resolveSymbolAt(uri, position);
+    try {
+      return getRenameEdits(document, position, newName, declaration, this.#referenceIndex);
+    } catch (e: unknown) {
+      if (e instanceof RenameError) {
+        throw new LSP.ResponseError(LSP.LSPErrorCodes.RequestFailed, e.message);
+      }
+      logException(e);
+      return null;
+    }
+  }
+
+  /**
+   * Resolves the symbol at the given position.
+   *
+   * @param uri the opened document
+   * @param position the cursor position
+   * @returns the resolved symbol, or `null` if not found.
+   */
+  private async resolveSymbolAt(
+    uri: LSP.DocumentUri,
+    position: LSP.Position,
+  ): Promise<ResolvedReference | null> {
     const path = uriToPath(uri);
     logger.debug(
       `Searching for declaration of symbol at ${position.line + 1}:${
@@ -194,24 +1031,15 @@ export default class Analyzer {
       `Searching for '${reference}' at ${position.line + 1}:${position.character + 1} in '${path}'`,
     );
 
-    try {
-      const result = resolveReference(document.project, reference, 'declaration');
+    return withErrorLogging(() => {
+      const result = resolveReference(document.project, reference);
       if (!result) {
         logger.debug(`Didn't find declaration of ${reference.symbols.join('.')}`);
         return null;
       }
 
-      const link = TreeSitterUtil.createLocationLink(result.document, result.node);
-      logger.debug(`Found declaration of ${reference.symbols.join('.')}: `, link);
-      return link;
-    } catch (e: unknown) {
-      if (e instanceof Error) {
-        logger.debug('Caught exception: ', e.stack);
-      } else {
-        logger.debug(`Caught:`, e);
-      }
-      return null;
-    }
+      return result;
+    }, null);
   }
 
   /**
@@ -328,3 +1156,37 @@ export default class Analyzer {
     return hoveredNode ?? undefined;
   }
 }
+
+/**
+ * Computes the syntax errors and broken links of a document.
+ */
+function computeDiagnostics(document: ModelicaDocument): LSP.Diagnostic[] {
+  return [...getSyntaxDiagnostics(document.tree), ...getDocumentLinkDiagnostics(document)];
+}
+
+/**
+ * Logs an exception caught while answering a request.
+ */
+function logException(e: unknown): void {
+  if (e instanceof Error) {
+    logger.debug('Caught exception: ', e.stack);
+  } else {
+    logger.debug(`Caught:`, e);
+  }
+}
+
+/**
+ * Calls `fn`, logging any exception it throws instead of failing the request.
+ *
+ * @param fn the function computing the result
+ * @param fallback the result if `fn` throws
+ * @returns the result of `fn`, or `fallback`
+ */
+function withErrorLogging<T>(fn: () => T, fallback: T): T {
+  try {
+    return fn();
+  } catch (e: unknown) {
+    logException(e);
+    return fallback;
+  }
+}
@@ -1,3 +1,4 @@
 export { ModelicaDocument } from "./document";
 export { ModelicaLibrary } from "./library";
 export { ModelicaProject } from "./project";
+export type { DocumentChangeEvent, DocumentChangeKind } from "./project";
@@ -52,9 +52,18 @@ export interface GetDocumentOptions {
   load?: boolean;
 }
 
+/** Kind of change reported by {@link ModelicaProject.onDidChangeDocument} */
+export type DocumentChangeKind = 'added' | 'updated' | 'removed';
+
+export interface DocumentChangeEvent {
+  document: ModelicaDocument;
+  kind: DocumentChangeKind;
+}
+
 export class ModelicaProject {
   readonly #parser: Parser;
   readonly #libraries: ModelicaLibrary[];
+  readonly #onDidChangeDocument = new LSP.Emitter<DocumentChangeEvent>();
 
   public constructor(parser: Parser) {
     this.#parser = parser;
@@ -67,6 +76,17 @@ export class ModelicaProject {
 
   public addLibrary(library: ModelicaLibrary) {
     this.#libraries.push(library);
+    for (const document of library.documents.values()) {
+      this.#onDidChangeDocument.fire({ document, kind: 'added' });
+    }
+  }
+
+  /**
+   * Fires when a document is added, updated or removed. Indexes over the
+   * documents of the project should listen to this event to stay up to date.
+   */
+  public get onDidChangeDocument(): LSP.Event<DocumentChangeEvent> {
+    return this.#onDidChangeDocument.event;
   }
 
   /**
@@ -134,6 +154,7 @@ export class ModelicaProject {
 
       const document = await ModelicaDocument.load(this, library, documentPath);
       library.documents.set(documentPath, document);
+      this.#onDidChangeDocument.fire({ document, kind: 'added' });
       logger.debug(`Added document: ${documentPath}`);
       return document;
     }
@@ -149,6 +170,7 @@ export class ModelicaProject {
     );
     const document = await ModelicaDocument.load(this, standaloneLibrary, documentPath);
     if (document.within.length === 0) {
+      standaloneLibrary.documents.set(documentPath, document);
       this.addLibrary(standaloneLibrary);
       logger.debug(`Added document: ${documentPath}`);
       return document;
@@ -175,7 +197,8 @@ export class ModelicaProject {
 
     const doc = await this.getDocument(documentPath, { load: true });
     if (doc) {
-      doc.update(text, range);
+      await doc.update(text, range);
+      this.#onDidChangeDocument.fire({ document: doc, kind: 'updated' });
       logger.debug(`Updated document '${documentPath}'`);
       return true;
     } else {
@@ -196,6 +219,7 @@ export class ModelicaProject {
     const doc = await this.getDocument(documentPath, { load: false });
     if (doc) {
       doc.library?.documents.delete(documentPath);
+      this.#onDidChangeDocument.fire({ document: doc, kind: 'removed' });
       return true;
     } else {
       logger.warn(`Failed to remove document '${documentPath}': not found`);
@@ -69,8 +69,8 @@ describe('ModelicaDocument', () => {
   beforeEach(async () => {
     const parser = await initializeParser();
     project = new ModelicaProject(parser);
-    project.addLibrary(library);
     library = new ModelicaLibrary(project, TEST_PACKAGE_ROOT, true);
+    project.addLibrary(library);
   });
 
   it('can update the entire document', () => {
@@ -46,6 +46,10 @@ import fs from 'node:fs/promises';
 
 import { initializeParser } from './parser';
 import Analyzer from './analyzer';
+import { GENERATE_SIMULATION_SCRIPT_COMMAND } from './analysis/codeLens';
+import { DEFAULT_FORMATTING_OPTIONS, FormattingOptions } from './analysis/formatting';
+import { DEFAULT_INLAY_HINT_OPTIONS, InlayHintOptions } from './analysis/inlayHints';
+import { SEMANTIC_TOKENS_LEGEND } from './analysis/semanticTokens';
 import { logger, setLoggerOptions } from './util/logger';
 
 /**
@@ -96,14 +100,58 @@ export class ModelicaServer {
    */
   public capabilities(): LSP.ServerCapabilities {
     return {
-      completionProvider: undefined,
+      completionProvider: {
+        triggerCharacters: ['.'],
+      },
       declarationProvider: true,
       definitionProvider: true,
-      hoverProvider: false,
-      signatureHelpProvider: undefined,
+      typeDefinitionProvider: true,
+      implementationProvider: true,
+      typeHierarchyProvider: true,
+      callHierarchyProvider: true,
+      inlayHintProvider: true,
+      codeLensProvider: {
+        resolveProvider: true,
+      },
+      documentLinkProvider: {
+        resolveProvider: false,
+      },
+      executeCommandProvider: {
+        commands: [GENERATE_SIMULATION_SCRIPT_COMMAND],
+      },
+      hoverProvider: true,
+      referencesProvider: true,
+      documentHighlightProvider: true,
+      renameProvider: {
+        prepareProvider: true,
+      },
+      signatureHelpProvider: {
+        triggerCharacters: ['(', ','],
+      },
       documentSymbolProvider: true,
-      colorProvider: false,
-      semanticTokensProvider: undefined,
+      workspaceSymbolProvider: true,
+      foldingRangeProvider: true,
+      selectionRangeProvider: true,
+      linkedEditingRangeProvider: true,
+      documentFormattingProvider: true,
+      documentRangeFormattingProvider: true,
+      documentOnTypeFormattingProvider: {
+        firstTriggerCharacter: '\n',
+        moreTriggerCharacter: [';'],
+      },
+      colorProvider: true,
+      diagnosticProvider: this.supportsPullDiagnostics()
+        ? {
+            interFileDependencies: true,
+            workspaceDiagnostics: true,
+          }
+        : undefined,
+      semanticTokensProvider: {
+        legend: SEMANTIC_TOKENS_LEGEND,
+        full: {
+          delta: true,
+        },
+      },
       textDocumentSync: LSP.TextDocumentSyncKind.Incremental,
       workspace: {
         workspaceFolders: {
@@ -118,6 +166,13 @@ export class ModelicaServer {
     // Make the text document manager listen on the connection
     // for open, change and close text document events
     this.#documents.listen(this.#connection);
+    this.#documents.onDidOpen(this.onDidOpenTextDocument.bind(this));
+    this.#documents.onDidClose(this.onDidCloseTextDocument.bind(this));
+
+    // Clients supporting pull diagnostics request them instead
+    if (!this.supportsPullDiagnostics()) {
+      this.#analyzer.onDidChangeDiagnostics((params) => connection.sendDiagnostics(params));
+    }
 
     connection.onInitialized(this.onInitialized.bind(this));
     connection.onShutdown(this.onShutdown.bind(this));
@@ -125,7 +180,48 @@ export class ModelicaServer {
     connection.onDidChangeWatchedFiles(this.onDidChangeWatchedFiles.bind(this));
     connection.onDeclaration(this.onDeclaration.bind(this));
     connection.onDefinition(this.onDefinition.bind(this));
+    connection.onTypeDefinition(this.onTypeDefinition.bind(this));
+    connection.onImplementation(this.onImplementation.bind(this));
+    connection.languages.typeHierarchy.onPrepare(this.onPrepareTypeHierarchy.bind(this));
+    connection.languages.typeHierarchy.onSupertypes(this.onTypeHierarchySupertypes.bind(this));
+    connection.languages.typeHierarchy.onSubtypes(this.onTypeHierarchySubtypes.bind(this));
+    connection.languages.callHierarchy.onPrepare(this.onPrepareCallHierarchy.bind(this));
+    connection.languages.callHierarchy.onIncomingCalls(this.onIncomingCalls.bind(this));
+    connection.languages.callHierarchy.onOutgoingCalls(this.onOutgoingCalls.bind(this));
     connection.onDocumentSymbol(this.onDocumentSymbol.bind(this));
+    connection.onWorkspaceSymbol(this.onWorkspaceSymbol.bind(this));
+    connection.onFoldingRanges(this.onFoldingRanges.bind(this));
+    connection.onSelectionRanges(this.onSelectionRanges.bind(this));
+    connection.languages.onLinkedEditingRange(this.onLinkedEditingRange.bind(this));
+    connection.onDocumentFormatting(this.onDocumentFormatting.bind(this));
+    connection.onDocumentRangeFormatting(this.onDocumentRangeFormatting.bind(this));
+    connection.onDocumentOnTypeFormatting(this.onDocumentOnTypeFormatting.bind(this));
+    connection.languages.inlayHint.on(this.onInlayHint.bind(this));
+    connection.onCodeLens(this.onCodeLens.bind(this));
+    connection.onDocumentLinks(this.onDocumentLinks.bind(this));
+    connection.onDocumentColor(this.onDocumentColor.bind(this));
+    connection.onColorPresentation(this.onColorPresentation.bind(this));
+    connection.onCodeLensResolve(this.onCodeLensResolve.bind(this));
+    connection.onExecuteCommand(this.onExecuteCommand.bind(this));
+    connection.onHover(this.onHover.bind(this));
+    connection.onCompletion(this.onCompletion.bind(this));
+    connection.onSignatureHelp(this.onSignatureHelp.bind(this));
+    connection.onReferences(this.onReferences.bind(this));
+    connection.onDocumentHighlight(this.onDocumentHighlight.bind(this));
+    connection.languages.semanticTokens.on(this.onSemanticTokens.bind(this));
+    connection.languages.semanticTokens.onDelta(this.onSemanticTokensDelta.bind(this));
+    connection.onPrepareRename(this.onPrepareRename.bind(this));
+    connection.onRenameRequest(this.onRenameRequest.bind(this));
+    connection.languages.diagnostics.on(this.onDiagnostic.bind(this));
+    connection.languages.diagnostics.onWorkspace(this.onWorkspaceDiagnostic.bind(this));
+  }
+
+  /**
+   * Checks if the client requests diagnostics instead of waiting for them to
+   * be published.
+   */
+  private supportsPullDiagnostics(): boolean {
+    return this.#clientCapabilities.textDocument?.diagnostic !== undefined;
   }
 
   private async onInitialized(): Promise<void> {
@@ -141,21 +237,44 @@ export class ModelicaServer {
       },
     );
 
-    // If we opened a project, analyze it now that we're initialized
-    // and the linter is ready.
+    if (this.supportsPullDiagnostics()) {
+      return;
+    }
 
-    // TODO: analysis
+    // Report the syntax errors found while loading the workspace
+    for (const params of this.#analyzer.getAllDiagnostics()) {
+      await connection.sendDiagnostics(params);
+    }
   }
 
   private async onShutdown(): Promise<void> {
     logger.debug('onShutdown');
   }
 
+  private async onDidOpenTextDocument(
+    event: LSP.TextDocumentChangeEvent<TextDocument>,
+  ): Promise<void> {
+    logger.debug('onDidOpenTextDocument');
+    await this.#analyzer.openDocument(event.document.uri, event.document.version);
+  }
+
+  private async onDidCloseTextDocument(
+    event: LSP.TextDocumentChangeEvent<TextDocument>,
+  ): Promise<void> {
+    logger.debug('onDidCloseTextDocument');
+    await this.#analyzer.closeDocument(event.document.uri);
+  }
+
   private async onDidChangeTextDocument(params: LSP.DidChangeTextDocumentParams): Promise<void> {
     logger.debug('onDidChangeTextDocument');
     for (const change of params.contentChanges) {
       const range = 'range' in change ? change.range : undefined;
-      await this.#analyzer.updateDocument(params.textDocument.uri, change.text, range);
+      await this.#analyzer.updateDocument(
+        params.textDocument.uri,
+        change.text,
+        range,
+        params.textDocument.version,
+      );
     }
   }
 
@@ -180,23 +299,31 @@ export class ModelicaServer {
         }
       }
     }
+
+    // Changed files can fix or break links in other documents
+    if (
+      this.supportsPullDiagnostics() &&
+      this.#clientCapabilities.workspace?.diagnostics?.refreshSupport
+    ) {
+      await this.#connection.languages.diagnostics.refresh();
+    }
   }
 
-  // TODO: We currently treat goto declaration and goto definition the same,
-  //       but there are probably some differences we need to handle.
+  // Goto declaration and goto definition differ in the following cases:
   //
-  // 1. inner/outer variables. Modelica allows the user to redeclare variables
-  //    from enclosing classes to use them in inner classes. Goto Declaration
-  //    should go to whichever declaration is in scope, while Goto Definition
-  //    should go to the `outer` declaration. In the following example:
+  // 1. inner/outer variables. Modelica allows the user to declare variables
+  //    `outer` in inner classes to use the `inner` variable of an enclosing
+  //    class. Goto Declaration goes to whichever declaration is in scope,
+  //    while Goto Definition goes to the `inner` declaration. In the following
+  //    example:
   //
   //        model Outer
   //          model Inner
-  //            inner Real shared;
+  //            outer Real shared;
   //          equation
   //            shared = ...;             (A)
   //          end Inner;
-  //          outer Real shared = 0;
+  //          inner Real shared = 0;
   //        equation
   //          shared = ...;               (B)
   //        end Outer;
@@ -204,8 +331,8 @@ export class ModelicaServer {
   //   +-----+-------------+------------+
   //   | Ref | Declaration | Definition |
   //   +-----+-------------+------------+
-  //   |  A  |    inner    |   outer    |
-  //   |  B  |    outer    |   outer    |
+  //   |  A  |    outer    |   inner    |
+  //   |  B  |    inner    |   inner    |
   //   +-----+-------------+------------+
   //
   // 2. extends_clause is weird. This is a valid class:
@@ -214,8 +341,10 @@ export class ModelicaServer {
   //        end Foo;
   //
   //    What does this even mean? Is this a definition of Foo or a redeclaration of Foo?
+  //    TODO: Both currently go to the class Foo.
   //
-  // 3. Import aliases. Should this be considered to be a declaration of `Frobnicator`?
+  // 3. Import aliases. The alias is not considered to be a declaration of
+  //    `Frobnicator`, both go to the imported class `Foo.Bar.Baz`:
   //
   //        import Frobnicator = Foo.Bar.Baz;
   //
@@ -237,7 +366,7 @@ export class ModelicaServer {
   private async onDefinition(params: LSP.DefinitionParams): Promise<LSP.LocationLink[]> {
     logger.debug('onDefinition');
 
-    const locationLink = await this.#analyzer.findDeclaration(
+    const locationLink = await this.#analyzer.findDefinition(
       params.textDocument.uri,
       params.position,
     );
@@ -248,20 +377,363 @@ export class ModelicaServer {
     return [locationLink];
   }
 
+  private async onTypeDefinition(params: LSP.TypeDefinitionParams): Promise<LSP.LocationLink[]> {
+    logger.debug('onTypeDefinition');
+
+    const locationLink = await this.#analyzer.findTypeDefinition(
+      params.textDocument.uri,
+      params.position,
+    );
+    if (locationLink == null) {
+      return [];
+    }
+
+    return [locationLink];
+  }
+
+  private async onImplementation(params: LSP.ImplementationParams): Promise<LSP.Location[]> {
+    logger.debug('onImplementation');
+
+    return this.#analyzer.findImplementations(params.textDocument.uri, params.position);
+  }
+
+  private async onPrepareTypeHierarchy(
+    params: LSP.TypeHierarchyPrepareParams,
+  ): Promise<LSP.TypeHierarchyItem[] | null> {
+    logger.debug('onPrepareTypeHierarchy');
+
+    return this.#analyzer.prepareTypeHierarchy(params.textDocument.uri, params.position);
+  }
+
+  private async onTypeHierarchySupertypes(
+    params: LSP.TypeHierarchySupertypesParams,
+  ): Promise<LSP.TypeHierarchyItem[]> {
+    logger.debug('onTypeHierarchySupertypes');
+
+    return this.#analyzer.getSupertypes(params.item);
+  }
+
+  private async onTypeHierarchySubtypes(
+    params: LSP.TypeHierarchySubtypesParams,
+  ): Promise<LSP.TypeHierarchyItem[]> {
+    logger.debug('onTypeHierarchySubtypes');
+
+    return this.#analyzer.getSubtypes(params.item);
+  }
+
+  private async onPrepareCallHierarchy(
+    params: LSP.CallHierarchyPrepareParams,
+  ): Promise<LSP.CallHierarchyItem[] | null> {
+    logger.debug('onPrepareCallHierarchy');
+
+    return this.#analyzer.prepareCallHierarchy(params.textDocument.uri, params.position);
+  }
+
+  private async onIncomingCalls(
+    params: LSP.CallHierarchyIncomingCallsParams,
+  ): Promise<LSP.CallHierarchyIncomingCall[]> {
+    logger.debug('onIncomingCalls');
+
+    return this.#analyzer.getIncomingCalls(params.item);
+  }
+
+  private async onOutgoingCalls(
+    params: LSP.CallHierarchyOutgoingCallsParams,
+  ): Promise<LSP.CallHierarchyOutgoingCall[]> {
+    logger.debug('onOutgoingCalls');
+
+    return this.#analyzer.getOutgoingCalls(params.item);
+  }
+
+  private async onHover(params: LSP.HoverParams): Promise<LSP.Hover | null> {
+    logger.debug('onHover');
+
+    return this.#analyzer.getHover(params.textDocument.uri, params.position);
+  }
+
+  private async onCompletion(params: LSP.CompletionParams): Promise<LSP.CompletionItem[]> {
+    logger.debug('onCompletion');
+
+    return this.#analyzer.getCompletions(params.textDocument.uri, params.position);
+  }
+
+  private async onSignatureHelp(
+    params: LSP.SignatureHelpParams,
+  ): Promise<LSP.SignatureHelp | null> {
+    logger.debug('onSignatureHelp');
+
+    return this.#analyzer.getSignatureHelp(params.textDocument.uri, params.position);
+  }
+
+  private async onReferences(params: LSP.ReferenceParams): Promise<LSP.Location[]> {
+    logger.debug('onReferences');
+
+    return this.#analyzer.findReferences(
+      params.textDocument.uri,
+      params.position,
+      params.context.includeDeclaration,
+    );
+  }
+
+  private async onDocumentHighlight(
+    params: LSP.DocumentHighlightParams,
+  ): Promise<LSP.DocumentHighlight[]> {
+    logger.debug('onDocumentHighlight');
+
+    return this.#analyzer.getDocumentHighlights(params.textDocument.uri, params.position);
+  }
+
+  private async onSemanticTokens(params: LSP.SemanticTokensParams): Promise<LSP.SemanticTokens> {
+    logger.debug('onSemanticTokens');
+
+    return this.#analyzer.getSemanticTokens(params.textDocument.uri);
+  }
+
+  private async onSemanticTokensDelta(
+    params: LSP.SemanticTokensDeltaParams,
+  ): Promise<LSP.SemanticTokens | LSP.SemanticTokensDelta> {
+    logger.debug('onSemanticTokensDelta');
+
+    return this.#analyzer.getSemanticTokensDelta(params.textDocument.uri, params.previousResultId);
+  }
+
+  private async onPrepareRename(
+    params: LSP.PrepareRenameParams,
+  ): Promise<LSP.PrepareRenameResult | null> {
+    logger.debug('onPrepareRename');
+
+    return this.#analyzer.prepareRename(params.textDocument.uri, params.position);
+  }
+
+  private async onRenameRequest(params: LSP.RenameParams): Promise<LSP.WorkspaceEdit | null> {
+    logger.debug('onRenameRequest');
+
+    return this.#analyzer.rename(params.textDocument.uri, params.position, params.newName);
+  }
+
   /**
    * Provide symbols defined in document.
    *
    * @param params  Unused.
+   * @returns       Hierarchy of symbols.
+   */
+  private async onDocumentSymbol(params: LSP.DocumentSymbolParams): Promise<LSP.DocumentSymbol[]> {
+    logger.debug(`onDocumentSymbol`);
+    return this.#analyzer.getDocumentSymbols(params.textDocument.uri);
+  }
+
+  private async onFoldingRanges(params: LSP.FoldingRangeParams): Promise<LSP.FoldingRange[]> {
+    logger.debug('onFoldingRanges');
+
+    return this.#analyzer.getFoldingRanges(params.textDocument.uri);
+  }
+
+  private async onSelectionRanges(params: LSP.SelectionRangeParams): Promise<LSP.SelectionRange[]> {
+    logger.debug('onSelectionRanges');
+
+    return this.#analyzer.getSelectionRanges(params.textDocument.uri, params.positions);
+  }
+
+  private async onLinkedEditingRange(
+    params: LSP.LinkedEditingRangeParams,
+  ): Promise<LSP.LinkedEditingRanges | null> {
+    logger.debug('onLinkedEditingRange');
+
+    return this.#analyzer.getLinkedEditingRanges(params.textDocument.uri, params.position);
+  }
+
+  private async onDocumentFormatting(
+    params: LSP.DocumentFormattingParams,
+  ): Promise<LSP.TextEdit[]> {
+    logger.debug('onDocumentFormatting');
+
+    const options = await this.getFormattingOptions(params.textDocument.uri, params.options);
+    return this.#analyzer.getFormattingEdits(params.textDocument.uri, options);
+  }
+
+  private async onDocumentRangeFormatting(
+    params: LSP.DocumentRangeFormattingParams,
+  ): Promise<LSP.TextEdit[]> {
+    logger.debug('onDocumentRangeFormatting');
+
+    const options = await this.getFormattingOptions(params.textDocument.uri, params.options);
+    return this.#analyzer.getFormattingEdits(params.textDocument.uri, options, params.range);
+  }
+
+  private async onDocumentOnTypeFormatting(
+    params: LSP.DocumentOnTypeFormattingParams,
+  ): Promise<LSP.TextEdit[]> {
+    logger.debug('onDocumentOnTypeFormatting');
+
+    const options = await this.getFormattingOptions(params.textDocument.uri, params.options);
+    return this.#analyzer.getOnTypeFormattingEdits(
+      params.textDocument.uri,
+      params.position,
+      params.ch,
+      options,
+    );
+  }
+
+  /**
+   * Combines the formatting options of a request with the `modelica.format`
+   * settings of the client.
+   */
+  private async getFormattingOptions(
+    uri: LSP.DocumentUri,
+    options: LSP.FormattingOptions,
+  ): Promise<FormattingOptions> {
+    const settings = await this.getConfiguration<FormattingOptions>(uri, 'modelica.format');
+
+    return {
+      ...DEFAULT_FORMATTING_OPTIONS,
+      ...settings,
+      tabSize: options.tabSize,
+      insertSpaces: options.insertSpaces,
+    };
+  }
+
+  private async onInlayHint(params: LSP.InlayHintParams): Promise<LSP.InlayHint[]> {
+    logger.debug('onInlayHint');
+
+    const settings = await this.getConfiguration<InlayHintOptions>(
+      params.textDocument.uri,
+      'modelica.inlayHints',
+    );
+    return this.#analyzer.getInlayHints(params.textDocument.uri, params.range, {
+      ...DEFAULT_INLAY_HINT_OPTIONS,
+      ...settings,
+    });
+  }
+
+  private async onDocumentLinks(params: LSP.DocumentLinkParams): Promise<LSP.DocumentLink[]> {
+    logger.debug('onDocumentLinks');
+    return this.#analyzer.getDocumentLinks(params.textDocument.uri);
+  }
+
+  private async onDocumentColor(params: LSP.DocumentColorParams): Promise<LSP.ColorInformation[]> {
+    logger.debug('onDocumentColor');
+    return this.#analyzer.getDocumentColors(params.textDocument.uri);
+  }
+
+  private async onColorPresentation(
+    params: LSP.ColorPresentationParams,
+  ): Promise<LSP.ColorPresentation[]> {
+    logger.debug('onColorPresentation');
+    return this.#analyzer.getColorPresentations(
+      params.textDocument.uri,
+      params.color,
+      params.range,
+    );
+  }
+
+  private async onCodeLens(params: LSP.CodeLensParams): Promise<LSP.CodeLens[]> {
+    logger.debug('onCodeLens');
+    return this.#analyzer.getCodeLenses(params.textDocument.uri);
+  }
+
+  private onCodeLensResolve(lens: LSP.CodeLens): LSP.CodeLens {
+    logger.debug('onCodeLensResolve');
+    return this.#analyzer.resolveCodeLens(lens);
+  }
+
+  private async onExecuteCommand(
+    params: LSP.ExecuteCommandParams,
+  ): Promise<LSP.ResponseError | void> {
+    logger.debug(`onExecuteCommand: ${params.command}`);
+
+    if (params.command !== GENERATE_SIMULATION_SCRIPT_COMMAND) {
+      return new LSP.ResponseError(
+        LSP.ErrorCodes.InvalidParams,
+        `Unknown command '${params.command}'`,
+      );
+    }
+
+    // Arguments: the URI of the document and the path of the model
+    const symbols: unknown = params.arguments?.[1];
+    if (
+      params.arguments?.length !== 2 ||
+      typeof params.arguments[0] !== 'string' ||
+      !Array.isArray(symbols) ||
+      symbols.length === 0 ||
+      !symbols.every((symbol) => typeof symbol === 'string')
+    ) {
+      return new LSP.ResponseError(
+        LSP.ErrorCodes.InvalidParams,
+        `Invalid arguments for '${params.command}': expected a document URI and a class path`,
+      );
+    }
+
+    const script = this.#analyzer.getSimulationScript(symbols);
+    if (!script) {
+      this.#connection.window.showErrorMessage(
+        `Couldn't generate a simulation script for ${symbols.join('.')}.`,
+      );
+      return;
+    }
+
+    const insertScript = LSP.TextDocumentEdit.create({ uri: script.uri, version: null }, [
+      LSP.TextEdit.insert(LSP.Position.create(0, 0), script.text),
+    ]);
+
+    // Untitled documents only exist once they are opened
+    if (script.uri.startsWith('untitled:')) {
+      await this.#connection.window.showDocument({ uri: script.uri, takeFocus: true });
+      await this.#connection.workspace.applyEdit({ documentChanges: [insertScript] });
+      return;
+    }
+
+    // The script gets a new name instead of replacing existing files
+    const { applied } = await this.#connection.workspace.applyEdit({
+      documentChanges: [LSP.CreateFile.create(script.uri), insertScript],
+    });
+    if (applied) {
+      await this.#connection.window.showDocument({ uri: script.uri, takeFocus: true });
+    }
+  }
+
+  /**
+   * Fetches a configuration section from the client, if the client supports
+   * it.
+   */
+  private async getConfiguration<T>(
+    uri: LSP.DocumentUri,
+    section: string,
+  ): Promise<Partial<T> | null> {
+    if (!this.#clientCapabilities.workspace?.configuration) {
+      return null;
+    }
+
+    return this.#connection.workspace.getConfiguration({ scopeUri: uri, section });
+  }
+
+  private async onDiagnostic(
+    params: LSP.DocumentDiagnosticParams,
+  ): Promise<LSP.DocumentDiagnosticReport> {
+    logger.debug('onDiagnostic');
+    return this.#analyzer.getDocumentDiagnosticReport(
+      params.textDocument.uri,
+      params.previousResultId,
+    );
+  }
+
+  private onWorkspaceDiagnostic(
+    params: LSP.WorkspaceDiagnosticParams,
+  ): LSP.WorkspaceDiagnosticReport {
+    logger.debug('onWorkspaceDiagnostic');
+    return this.#analyzer.getWorkspaceDiagnosticReport(params.previousResultIds);
+  }
+
+  /**
+   * Provide symbols matching a query in all libraries.
+   *
+   * @param params  Search query.
    * @returns       Symbol information.
    */
-  private async onDocumentSymbol(
-    params: LSP.DocumentSymbolParams,
+  private async onWorkspaceSymbol(
+    params: LSP.WorkspaceSymbolParams,
   ): Promise<LSP.SymbolInformation[]> {
-    // TODO: ideally this should return LSP.DocumentSymbol[] instead of LSP.SymbolInformation[]
-    // which is a hierarchy of symbols.
-    // https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/#textDocument_documentSymbol
-    logger.debug(`onDocumentSymbol`);
-    return this.#analyzer.getDeclarationsForUri(params.textDocument.uri);
+    logger.debug(`onWorkspaceSymbol`);
+    return this.#analyzer.findWorkspaceSymbols(params.query);
   }
 }
 
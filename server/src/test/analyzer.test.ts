@@ -0,0 +1,121 @@
+/*
+ * This file is part of OpenModelica.
+ *
+ * Copyright (c) 1998-2024, Open Source Modelica Consortium (OSMC),
+ * c/o Linköpings universitet, Department of Computer and Information Science,
+ * SE-58183 Linköping, Sweden.
+ *
+ * All rights reserved.
+ *
+ * THIS PROGRAM IS PROVIDED UNDER THE TERMS OF AGPL VERSION 3 LICENSE OR
+ * THIS OSMC PUBLIC LICENSE (OSMC-PL) VERSION 1.8.
+ * ANY USE, REPRODUCTION OR DISTRIBUTION OF THIS PROGRAM CONSTITUTES
+ * RECIPIENT'S ACCEPTANCE OF THE OSMC PUBLIC LICENSE OR THE GNU AGPL
+ * VERSION 3, ACCORDING TO RECIPIENTS CHOICE.
+ *
+ * The OpenModelica software and the OSMC (Open Source Modelica Consortium)
+ * Public License (OSMC-PL) are obtained from OSMC, either from the above
+ * address, from the URLs:
+ * http://www.openmodelica.org or
+ * https://github.com/OpenModelica/ or
+ * http://www.ida.liu.se/projects/OpenModelica,
+ * and in the OpenModelica distribution.
+ *
+ * GNU AGPL version 3 is obtained from:
+ * https://www.gnu.org/licenses/licenses.html#GPL
+ *
+ * This program is distributed WITHOUT ANY WARRANTY; without
+ * even the implied warranty of MERCHANTABILITY or FITNESS
+ * FOR A PARTICULAR PURPOSE, EXCEPT AS EXPRESSLY SET FORTH
+ * IN THE BY RECIPIENT SELECTED SUBSIDIARY LICENSE CONDITIONS OF OSMC-PL.
+ *
+ * See the full OSMC Public License conditions for more details.
+ *
+ */
+
+import * as LSP from 'vscode-languageserver/node';
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import url from 'node:url';
+
+import Analyzer from '../analyzer';
+import { initializeParser } from '../parser';
+
+const TEST_LIBRARY_PATH = path.join(__dirname, '..', 'analysis', 'test', 'TestLibrary');
+const PACKAGE_URI = url.pathToFileURL(path.join(TEST_LIBRARY_PATH, 'package.mo')).href;
+const CONSTANTS_URI = url.pathToFileURL(path.join(TEST_LIBRARY_PATH, 'Constants.mo')).href;
+
+describe('Analyzer', () => {
+  describe('pull diagnostics', () => {
+    let analyzer: Analyzer;
+
+    beforeEach(async () => {
+      analyzer = new Analyzer(await initializeParser());
+      await analyzer.loadLibrary(url.pathToFileURL(TEST_LIBRARY_PATH).href, true);
+    });
+
+    it('should report all workspace documents', () => {
+      const { items } = analyzer.getWorkspaceDiagnosticReport([]);
+      assert(items.length > 1);
+      assert(items.every((item) => item.kind === LSP.DocumentDiagnosticReportKind.Full));
+
+      const packageReport = items.find((item) => item.uri === PACKAGE_URI);
+      assert.equal(packageReport?.kind, LSP.DocumentDiagnosticReportKind.Full);
+      assert.deepEqual(
+        packageReport.items.map(({ severity }) => severity),
+        [LSP.DiagnosticSeverity.Warning, LSP.DiagnosticSeverity.Warning],
+      );
+    });
+
+    it('should report unchanged documents as unchanged', () => {
+      const previousResultIds = analyzer
+        .getWorkspaceDiagnosticReport([])
+        .items.map(({ uri, resultId }) => ({ uri, value: resultId! }));
+
+      const { items } = analyzer.getWorkspaceDiagnosticReport(previousResultIds);
+      assert(items.every((item) => item.kind === LSP.DocumentDiagnosticReportKind.Unchanged));
+    });
+
+    it('should report all documents again after any change', async () => {
+      const previousResultIds = analyzer
+        .getWorkspaceDiagnosticReport([])
+        .items.map(({ uri, resultId }) => ({ uri, value: resultId! }));
+      await analyzer.updateDocument(CONSTANTS_URI, 'package Constants\n  Real x\nend Constants;\n');
+
+      // Links in other documents may be broken by the change
+      const { items } = analyzer.getWorkspaceDiagnosticReport(previousResultIds);
+      assert(items.every((item) => item.kind === LSP.DocumentDiagnosticReportKind.Full));
+    });
+
+    it('should report the editor versions of open documents', async () => {
+      await analyzer.openDocument(CONSTANTS_URI, 3);
+      await analyzer.updateDocument(
+        CONSTANTS_URI,
+        'package Constants\n  Real x\nend Constants;\n',
+        undefined,
+        7,
+      );
+
+      const { items } = analyzer.getWorkspaceDiagnosticReport([]);
+      assert.equal(items.find((item) => item.uri === CONSTANTS_URI)?.version, 7);
+      assert.equal(items.find((item) => item.uri === PACKAGE_URI)?.version, null);
+    });
+
+    it('should tie document reports to the document version', async () => {
+      const report = await analyzer.getDocumentDiagnosticReport(CONSTANTS_URI);
+      assert.equal(report.kind, LSP.DocumentDiagnosticReportKind.Full);
+      assert.deepEqual(report.items, []);
+
+      const unchanged = await analyzer.getDocumentDiagnosticReport(CONSTANTS_URI, report.resultId);
+      assert.equal(unchanged.kind, LSP.DocumentDiagnosticReportKind.Unchanged);
+
+      await analyzer.updateDocument(CONSTANTS_URI, 'package Constants\n  Real x\nend Constants;\n');
+      const changed = await analyzer.getDocumentDiagnosticReport(CONSTANTS_URI, report.resultId);
+      assert.equal(changed.kind, LSP.DocumentDiagnosticReportKind.Full);
+      assert.deepEqual(
+        changed.items.map(({ message }) => message),
+        ["expected ';'"],
+      );
+    });
+  });
+});
@@ -127,12 +127,196 @@ function getDeclarationSymbolFromNode(
 }
 
 /**
- * Returns symbol kind from class definition node.
+ * Returns the outline of a document: a hierarchy of the classes in the
+ * document, their components, grouped by public/protected section, their
+ * extends and import clauses and their equation/algorithm sections.
  *
- * @param node Node containing class_definition
+ * @param tree  Tree-sitter tree.
+ * @returns     Document symbols of all top-level classes.
+ */
+export function getDocumentSymbols(tree: Parser.Tree): LSP.DocumentSymbol[] {
+  return tree.rootNode.children
+    .filter((child) => child.type === 'stored_definition')
+    .map((storedDefinition) => storedDefinition.childForFieldName('classDefinition'))
+    .filter((classDefinition): classDefinition is Parser.SyntaxNode => classDefinition !== null)
+    .map(getClassSymbol)
+    .filter((symbol): symbol is LSP.DocumentSymbol => symbol !== null);
+}
+
+/**
+ * Converts a class definition and its contents to a document symbol.
+ *
+ * @param node  Class definition node.
+ * @returns     Document symbol or `null` if the class has no name.
+ */
+function getClassSymbol(node: Parser.SyntaxNode): LSP.DocumentSymbol | null {
+  const classSpecifier = node.childForFieldName('classSpecifier');
+  const identifier = classSpecifier?.childForFieldName('identifier');
+  if (!classSpecifier || !identifier) {
+    return null;
+  }
+
+  const children: LSP.DocumentSymbol[] = [];
+  for (const child of classSpecifier.namedChildren) {
+    switch (child.type) {
+      case 'element_list':
+        children.push(...child.namedChildren.flatMap(getElementSymbols));
+        break;
+      case 'public_element_list':
+      case 'protected_element_list':
+        children.push(
+          createSymbol(
+            child.type === 'public_element_list' ? 'public' : 'protected',
+            LSP.SymbolKind.Namespace,
+            child,
+            child.firstChild!,
+            child.namedChildren.flatMap(getElementSymbols),
+          ),
+        );
+        break;
+      case 'equation_section':
+      case 'algorithm_section': {
+        const keyword = child.children.filter((c) => !c.isNamed());
+        children.push(
+          createSymbol(
+            keyword.map((c) => c.text).join(' '),
+            LSP.SymbolKind.Namespace,
+            child,
+            keyword.at(-1) ?? child,
+          ),
+        );
+        break;
+      }
+      case 'enum_list':
+        for (const literal of child.namedChildren) {
+          const literalIdentifier = literal.childForFieldName('identifier');
+          if (literalIdentifier) {
+            children.push(
+              createSymbol(
+                literalIdentifier.text,
+                LSP.SymbolKind.EnumMember,
+                literal,
+                literalIdentifier,
+              ),
+            );
+          }
+        }
+        break;
+    }
+  }
+
+  return createSymbol(
+    identifier.text,
+    getKind(node) ?? LSP.SymbolKind.Class,
+    node,
+    identifier,
+    children,
+    TreeSitterUtil.getClassPrefixes(node) ?? undefined,
+  );
+}
+
+/**
+ * Converts an element of an element list to document symbols.
+ *
+ * @param node  Element node.
+ * @returns     One symbol per declared class or component, extends clause or
+ *              import clause.
+ */
+function getElementSymbols(node: Parser.SyntaxNode): LSP.DocumentSymbol[] {
+  switch (node.type) {
+    case 'named_element': {
+      const classDefinition = node.childForFieldName('classDefinition');
+      if (classDefinition) {
+        const symbol = getClassSymbol(classDefinition);
+        return symbol ? [symbol] : [];
+      }
+      return getComponentSymbols(node);
+    }
+    case 'extends_clause': {
+      const typeSpecifier = node.childForFieldName('typeSpecifier');
+      if (!typeSpecifier) {
+        return [];
+      }
+      return [
+        createSymbol(typeSpecifier.text, LSP.SymbolKind.Class, node, typeSpecifier, [], 'extends'),
+      ];
+    }
+    case 'import_clause': {
+      const name = node.childForFieldName('name');
+      if (!name) {
+        return [];
+      }
+      const alias = node.childForFieldName('alias');
+      const wildcard = node.childForFieldName('wildcard') ? '.*' : '';
+      const importName = alias ? `${alias.text} = ${name.text}` : `${name.text}${wildcard}`;
+      return [createSymbol(importName, LSP.SymbolKind.Module, node, alias ?? name, [], 'import')];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Converts the component declarations of an element to document symbols.
+ *
+ * @param node  Named element node.
+ * @returns     One symbol per declared component.
+ */
+function getComponentSymbols(node: Parser.SyntaxNode): LSP.DocumentSymbol[] {
+  const componentClause = TreeSitterUtil.getComponentClause(node);
+  const componentDeclarations =
+    componentClause?.childForFieldName('componentDeclarations')?.namedChildren ?? [];
+  const kind = getKind(node);
+  const type = componentClause?.childForFieldName('typeSpecifier')?.text;
+
+  return componentDeclarations.flatMap((componentDeclaration) => {
+    const identifier = componentDeclaration
+      .childForFieldName('declaration')
+      ?.childForFieldName('identifier');
+    if (!identifier) {
+      return [];
+    }
+
+    // Only use the whole element as range if it doesn't declare other components
+    const range = componentDeclarations.length === 1 ? node : componentDeclaration;
+    return [
+      createSymbol(identifier.text, kind ?? LSP.SymbolKind.Field, range, identifier, [], type),
+    ];
+  });
+}
+
+function createSymbol(
+  name: string,
+  kind: LSP.SymbolKind,
+  node: Parser.SyntaxNode,
+  selectionNode: Parser.SyntaxNode,
+  children: LSP.DocumentSymbol[] = [],
+  detail?: string,
+): LSP.DocumentSymbol {
+  return LSP.DocumentSymbol.create(
+    name,
+    detail,
+    kind,
+    TreeSitterUtil.range(node),
+    TreeSitterUtil.range(selectionNode),
+    children,
+  );
+}
+
+/**
+ * Returns symbol kind from class definition or component declaration node.
+ *
+ * @param node Node containing class_definition or component declaration
  * @returns Symbol kind or `undefined`.
  */
-function getKind(node: Parser.SyntaxNode): LSP.SymbolKind | undefined {
+export function getKind(node: Parser.SyntaxNode): LSP.SymbolKind | undefined {
+  if (TreeSitterUtil.isVariableDeclaration(node)) {
+    const prefixes = TreeSitterUtil.getComponentPrefixes(node);
+    return prefixes.includes('constant') || prefixes.includes('parameter')
+      ? LSP.SymbolKind.Constant
+      : LSP.SymbolKind.Field;
+  }
+
   const classPrefixes = TreeSitterUtil.getClassPrefixes(node)?.split(/\s+/);
   if (classPrefixes === undefined) {
     return undefined;
@@ -141,17 +325,22 @@ function getKind(node: Parser.SyntaxNode): LSP.SymbolKind | undefined {
   switch (classPrefixes[classPrefixes.length - 1]) {
     case 'block':
     case 'class':
-    case 'connector':
     case 'model':
       return LSP.SymbolKind.Class;
+    case 'connector':
+      return LSP.SymbolKind.Interface;
     case 'function':
     case 'operator':
       return LSP.SymbolKind.Function;
     case 'package':
-    case 'record':
       return LSP.SymbolKind.Package;
+    case 'record':
+      // also covers `operator record`
+      return LSP.SymbolKind.Struct;
     case 'type':
-      return LSP.SymbolKind.TypeParameter;
+      return node.childForFieldName('classSpecifier')?.type === 'enumeration_class_specifier'
+        ? LSP.SymbolKind.Enum
+        : LSP.SymbolKind.TypeParameter;
     default:
       return undefined;
   }
@@ -37,7 +37,11 @@ import * as assert from 'assert';
 import * as LSP from 'vscode-languageserver/node';
 
 import { initializeParser } from '../../parser';
-import { getAllDeclarationsInTree, nodeToSymbolInformation } from '../declarations';
+import {
+  getAllDeclarationsInTree,
+  getDocumentSymbols,
+  nodeToSymbolInformation,
+} from '../declarations';
 
 const modelicaTestString = `
 model M "Description"
@@ -84,3 +88,79 @@ describe('getAllDeclarationsInTree', () => {
     assert.deepEqual(types, expectedTypes);
   });
 });
+
+const modelicaOutlineString = `package P
+  type E = enumeration(a, b);
+  model M "Description"
+    import C = A.B;
+    extends Base(k = 1);
+    Real x, y;
+  public
+    parameter Real p;
+  protected
+    constant Real c = 1;
+  initial equation
+    x = 0;
+  equation
+    der(x) = p;
+  end M;
+  connector Pin
+  end Pin;
+end P;
+`;
+
+describe('getDocumentSymbols', () => {
+  it('Nested classes, elements and sections', async () => {
+    const parser = await initializeParser();
+    const tree = parser.parse(modelicaOutlineString);
+    const symbols = getDocumentSymbols(tree);
+
+    const summarize = (symbol: LSP.DocumentSymbol): unknown => [
+      symbol.name,
+      symbol.kind,
+      ...(symbol.children?.length ? [symbol.children.map(summarize)] : []),
+    ];
+
+    assert.deepEqual(symbols.map(summarize), [
+      [
+        'P',
+        LSP.SymbolKind.Package,
+        [
+          [
+            'E',
+            LSP.SymbolKind.Enum,
+            [
+              ['a', LSP.SymbolKind.EnumMember],
+              ['b', LSP.SymbolKind.EnumMember],
+            ],
+          ],
+          [
+            'M',
+            LSP.SymbolKind.Class,
+            [
+              ['C = A.B', LSP.SymbolKind.Module],
+              ['Base', LSP.SymbolKind.Class],
+              ['x', LSP.SymbolKind.Field],
+              ['y', LSP.SymbolKind.Field],
+              ['public', LSP.SymbolKind.Namespace, [['p', LSP.SymbolKind.Constant]]],
+              ['protected', LSP.SymbolKind.Namespace, [['c', LSP.SymbolKind.Constant]]],
+              ['initial equation', LSP.SymbolKind.Namespace],
+              ['equation', LSP.SymbolKind.Namespace],
+            ],
+          ],
+          ['Pin', LSP.SymbolKind.Interface],
+        ],
+      ],
+    ]);
+  });
+
+  it('Selection range on the name', async () => {
+    const parser = await initializeParser();
+    const tree = parser.parse(modelicaOutlineString);
+    const model = getDocumentSymbols(tree)[0].children![1];
+
+    assert.deepEqual(model.selectionRange, LSP.Range.create(2, 8, 2, 9));
+    assert.deepEqual(model.range, LSP.Range.create(2, 2, 14, 7));
+    assert.deepEqual(model.children![2].selectionRange, LSP.Range.create(5, 9, 5, 10));
+  });
+});
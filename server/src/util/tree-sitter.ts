@@ -164,6 +164,25 @@ export function isElementList(n: SyntaxNode): boolean {
   }
 }
 
+/**
+ * Get the elements of all element lists of a class.
+ *
+ * @param n Node of tree
+ * @returns Elements of the class or `[]` if node is not a `class_definition`.
+ */
+export function getClassElements(n: SyntaxNode): SyntaxNode[] {
+  if (n.type !== 'class_definition') {
+    return [];
+  }
+
+  return (
+    n
+      .childForFieldName('classSpecifier')
+      ?.children.filter(isElementList)
+      .flatMap((elementList) => elementList.namedChildren) ?? []
+  );
+}
+
 export function findParent(
   start: SyntaxNode,
   predicate: (n: SyntaxNode) => boolean,
@@ -377,6 +396,81 @@ export function getClassPrefixes(node: SyntaxNode): string | null {
   return classPrefixNode.text;
 }
 
+/**
+ * Get the component clause of a component declaration node.
+ *
+ * @param node  A `named_element`, `component_redeclaration` or `component_clause` node.
+ * @returns     The `component_clause` node or `null` if the node doesn't declare components.
+ */
+export function getComponentClause(node: SyntaxNode): SyntaxNode | null {
+  switch (node.type) {
+    case 'component_clause':
+      return node;
+    case 'named_element':
+    case 'component_redeclaration':
+      return node.childForFieldName('componentClause');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Find the `component_declaration` declaring `identifier` in a component clause.
+ *
+ * @param node        A component declaration node, see {@link getComponentClause}.
+ * @param identifier  Name of the declared component.
+ * @returns           The `component_declaration` node or `null` if not found.
+ */
+export function getComponentDeclaration(node: SyntaxNode, identifier: string): SyntaxNode | null {
+  const componentList = getComponentClause(node)?.childForFieldName('componentDeclarations');
+  return (
+    componentList?.namedChildren.find(
+      (declaration) =>
+        declaration.type === 'component_declaration' &&
+        getDeclaredIdentifiers(declaration).includes(identifier),
+    ) ?? null
+  );
+}
+
+/**
+ * Get the type prefixes (e.g. `parameter`, `input`, `flow`) of a component clause.
+ *
+ * @param node  A component declaration node, see {@link getComponentClause}.
+ * @returns     List of prefixes in declaration order.
+ */
+export function getComponentPrefixes(node: SyntaxNode): string[] {
+  const element = node.type === 'component_clause' ? node.parent : node;
+  const elementPrefixes =
+    element?.type === 'named_element' || element?.type === 'component_redeclaration'
+      ? element.children
+      : [];
+  const clausePrefixes = getComponentClause(node)?.children ?? [];
+
+  return [...elementPrefixes, ...clausePrefixes]
+    .filter((child) => !child.isNamed())
+    .map((child) => child.type);
+}
+
+/**
+ * Get the description string of a class or component declaration.
+ *
+ * @param node  A `class_definition` or `component_declaration` node.
+ * @returns     The description without quotes or `undefined` if there is none.
+ */
+export function getDescriptionString(node: SyntaxNode): string | undefined {
+  const owner = node.type === 'class_definition' ? node.childForFieldName('classSpecifier') : node;
+  const descriptionString = owner?.childForFieldName('descriptionString');
+  if (!descriptionString) {
+    return undefined;
+  }
+
+  // Description strings can be concatenated with `+`
+  return descriptionString.namedChildren
+    .filter((child) => child.type === 'STRING')
+    .map((child) => child.text.slice(1, -1))
+    .join('');
+}
+
 export function positionToPoint(position: LSP.Position): Parser.Point {
   return { row: position.line, column: position.character };
 }